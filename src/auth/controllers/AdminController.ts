@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { RegistrationAnalyticsService } from '../services/RegistrationAnalyticsService';
+import { AuthService } from '../services/AuthService';
+import { BadRequestError, ValidationError } from '@/utils/AppError';
+import Joi from 'joi';
+
+const DEFAULT_REPORT_DAYS = 30;
+
+// Validation schemas
+const funnelQuerySchema = Joi.object({
+  from: Joi.date().iso(),
+  to: Joi.date().iso(),
+  source: Joi.string().valid('email', 'oauth')
+});
+
+const userParamsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+export class AdminController {
+  private registrationAnalyticsService: RegistrationAnalyticsService;
+  private authService: AuthService;
+
+  constructor() {
+    this.registrationAnalyticsService = new RegistrationAnalyticsService();
+    this.authService = new AuthService();
+  }
+
+  // Registration funnel conversion and time per step for sessions started in a date range
+  getRegistrationFunnel = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = funnelQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const to: Date = value.to || new Date();
+      const from: Date = value.from || new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        throw new ValidationError('"from" must be before "to"');
+      }
+
+      const funnel = await this.registrationAnalyticsService.getFunnel(from, to, value.source);
+
+      res.status(200).json({
+        success: true,
+        data: funnel
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Whether a user's account is locked and how many failed logins it has
+  getUserLockState = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = userParamsSchema.validate(req.params);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const lockState = await this.authService.getAccountLockState(value.id);
+
+      res.status(200).json({
+        success: true,
+        data: lockState
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Unlock a user's account and reset its failed login count
+  unlockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = userParamsSchema.validate(req.params);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.authService.unlockAccountAsAdmin(value.id, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account unlocked',
+        data: user.getLockState()
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
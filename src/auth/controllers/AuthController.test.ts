@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { AuthController } from './AuthController';
+import { AuthService } from '../services/AuthService';
+import { EmailService } from '../services/EmailService';
+
+jest.mock('../services/AuthService');
+jest.mock('../services/EmailService');
+jest.mock('../services/OidcService');
+
+describe('AuthController password reset requests', () => {
+  let controller: AuthController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new AuthController();
+  });
+
+  const forgotPassword = async () => {
+    const req = { body: { email: 'owner@example.com' } } as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+
+    await controller.forgotPassword(req, res, next);
+    return { res, next };
+  };
+
+  it('answers the same for a password account when its reset email fails to send', async () => {
+    jest.mocked(AuthService.prototype.generatePasswordResetToken).mockResolvedValue('reset-token');
+    jest.mocked(EmailService.prototype.sendPasswordResetEmail).mockRejectedValue(new Error('SMTP down'));
+    const failed = await forgotPassword();
+
+    jest.mocked(AuthService.prototype.generatePasswordResetToken).mockResolvedValue(null);
+    const unknown = await forgotPassword();
+
+    expect(failed.next).not.toHaveBeenCalled();
+    expect(failed.res.status).toHaveBeenCalledWith(200);
+    expect(jest.mocked(failed.res.json).mock.calls[0]).toEqual(jest.mocked(unknown.res.json).mock.calls[0]);
+  });
+});
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthService } from '../services/AuthService';
+import { AuthService, AuthenticatedUser, MfaChallenge } from '../services/AuthService';
 import { EmailService } from '../services/EmailService';
-import { AppError, ValidationError, BadRequestError } from '@/utils/AppError';
+import { OidcService } from '../services/OidcService';
+import { AppError, ValidationError, BadRequestError, NotFoundError } from '@/utils/AppError';
 import { logger } from '@/utils/logger';
+import { getSessionContext } from '@/utils/sessionContext';
+import { toLoginResponse } from '@/utils/loginResponse';
 import { LoginRequest } from '../types/auth';
+import { ChangePasswordRequest } from '@/types/api';
 import Joi from 'joi';
 
 const loginSchema = Joi.object({
@@ -33,30 +37,115 @@ const forgotPasswordSchema = Joi.object({
     })
 });
 
+const magicLinkSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+});
+
+const consumeMagicLinkSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Sign-in token is required'
+    })
+});
+
+const googleTokenSchema = Joi.object({
+  googleToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Google token is required'
+    })
+});
+
+const idTokenSchema = Joi.object({
+  idToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'ID token is required'
+    }),
+  nonce: Joi.string().optional()
+});
+
+// Password strength rules shared by reset and change password
+const strongPassword = Joi.string()
+  .min(8)
+  .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]'))
+  .messages({
+    'string.min': 'Password must be at least 8 characters long',
+    'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
+  });
+
 const resetPasswordSchema = Joi.object({
   token: Joi.string()
     .required()
     .messages({
       'any.required': 'Reset token is required'
     }),
-  password: Joi.string()
-    .min(8)
-    .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]'))
+  password: strongPassword
     .required()
     .messages({
-      'string.min': 'Password must be at least 8 characters long',
-      'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character',
       'any.required': 'Password is required'
     })
 });
 
+const unlockAccountSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Unlock token is required'
+    })
+});
+
+const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().optional(),
+  newPassword: strongPassword
+    .required()
+    .messages({
+      'any.required': 'New password is required'
+    })
+});
+
+const changeEmailSchema = Joi.object({
+  newEmail: Joi.string()
+    .email()
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'New email is required'
+    })
+});
+
+const confirmEmailChangeSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Confirmation token is required'
+    })
+});
+
+const changeShopUrlSchema = Joi.object({
+  shopUrl: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Shop URL is required'
+    })
+});
+
 export class AuthController {
   private authService: AuthService;
   private emailService: EmailService;
+  private oidcService: OidcService;
 
   constructor() {
     this.authService = new AuthService();
     this.emailService = new EmailService();
+    this.oidcService = new OidcService();
   }
 
   // Login with email and password
@@ -70,22 +159,193 @@ export class AuthController {
       const { email, password } = value as LoginRequest;
 
       // Authenticate user
-      const result = await this.authService.authenticate(email, password);
+      const result = await this.authService.authenticate(email, password, getSessionContext(req));
 
       if (!result) {
         throw new BadRequestError('Invalid email or password');
       }
 
+      this.sendLoginResult(res, result);
+
+      if (!('mfaRequired' in result)) {
+        logger.info(`User logged in successfully: ${result.user.email}`);
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Sign in with Google
+  googleLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = googleTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const result = await this.authService.authenticateWithGoogle(value.googleToken, getSessionContext(req));
+
+      this.sendLoginResult(res, result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Sign in with any configured OIDC provider
+  oidcLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = idTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const result = await this.authService.authenticateWithOidc(
+        req.params.provider,
+        value.idToken,
+        value.nonce,
+        getSessionContext(req)
+      );
+
+      this.sendLoginResult(res, result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // List configured sign-in providers
+  getProviders = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json({
+        success: true,
+        message: 'Sign-in providers retrieved successfully',
+        data: { providers: this.oidcService.listProviders() }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Link a Google account to the signed-in user
+  linkGoogle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = googleTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const identity = await this.authService.linkGoogleAccount(req.user.id, value.googleToken);
+
+      res.status(200).json({
+        success: true,
+        message: 'Google account linked successfully',
+        data: { identity: identity.toSafeJSON() }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Link an account from any configured OIDC provider
+  linkOidc = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = idTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const identity = await this.authService.linkOidcAccount(req.user.id, req.params.provider, value.idToken, value.nonce);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account linked successfully',
+        data: { identity: identity.toSafeJSON() }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // List the signed-in user's sign-in methods
+  getIdentities = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { hasPassword, identities } = await this.authService.listIdentities(req.user.id);
+
       res.status(200).json({
         success: true,
-        message: 'Login successful',
+        message: 'Linked accounts retrieved successfully',
         data: {
-          user: result.user.toSafeJSON(),
-          tokens: result.tokens
+          hasPassword,
+          identities: identities.map(identity => identity.toSafeJSON())
         }
       });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Unlink a sign-in provider
+  unlinkIdentity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { provider } = req.params;
+      await this.authService.unlinkIdentity(req.user.id, provider);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account unlinked successfully'
+      });
+
+      logger.info(`Identity ${provider} unlinked by user: ${req.user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Email a passwordless sign-in link
+  requestMagicLink = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = magicLinkSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      await this.authService.requestMagicLink(value.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account with that email exists, we have sent a sign-in link'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Sign in with a magic link token
+  consumeMagicLink = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = consumeMagicLinkSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const result = await this.authService.consumeMagicLink(value.token, getSessionContext(req));
 
-      logger.info(`User logged in successfully: ${result.user.email}`);
+      this.sendLoginResult(res, result);
     } catch (error) {
       next(error);
     }
@@ -100,7 +360,7 @@ export class AuthController {
         throw new BadRequestError('Refresh token is required');
       }
 
-      const tokens = await this.authService.refreshTokens(refreshToken);
+      const tokens = await this.authService.refreshTokens(refreshToken, getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -123,6 +383,11 @@ export class AuthController {
         await this.authService.revokeRefreshToken(refreshToken);
       }
 
+      // Stop the access token used for this request from working until it expires
+      if (req.user?.tokenId) {
+        await this.authService.revokeAccessToken(req.user.tokenId, req.user.tokenExpiresAt);
+      }
+
       res.status(200).json({
         success: true,
         message: 'Logged out successfully'
@@ -154,6 +419,136 @@ export class AuthController {
     }
   };
 
+  // List active sessions
+  getSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const sessions = await this.authService.listSessions(req.user.id, req.user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Active sessions retrieved successfully',
+        data: { sessions }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Revoke a single session
+  revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { id } = req.params;
+      const revoked = await this.authService.revokeSession(req.user.id, id);
+      if (!revoked) {
+        throw new NotFoundError('Session not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+
+      logger.info(`Session ${id} revoked by user: ${req.user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Deactivate the signed-in account and sign out every device; requires a recent step-up
+  deleteAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      await this.authService.deactivateUser(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account deactivated successfully'
+      });
+
+      logger.info(`Account deactivated by user: ${req.user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Email a confirmation link to a new address (sensitive: needs a recent step-up)
+  requestEmailChange = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = changeEmailSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      await this.authService.requestEmailChange(req.user.id, value.newEmail);
+
+      res.status(200).json({
+        success: true,
+        message: 'Check your new email address for a link to confirm the change'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Apply an email change from the link sent to the new address
+  confirmEmailChange = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = confirmEmailChangeSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.authService.confirmEmailChange(value.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email address changed. Please sign in again.',
+        data: { email: user.email }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Move the shop to a new URL (sensitive: needs a recent step-up)
+  changeShopUrl = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = changeShopUrlSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.authService.changeShopUrl(req.user.id, value.shopUrl);
+
+      res.status(200).json({
+        success: true,
+        message: 'Shop URL changed successfully',
+        data: { shopUrl: user.shopUrl }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Check authentication status
   checkAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -187,8 +582,14 @@ export class AuthController {
       // Generate reset token
       const resetToken = await this.authService.generatePasswordResetToken(email);
 
-      // Send reset email
-      await this.emailService.sendPasswordResetEmail(email, resetToken);
+      // Send reset email only when an eligible account exists; a failed send gets the same answer as no account
+      if (resetToken) {
+        try {
+          await this.emailService.sendPasswordResetEmail(email, resetToken);
+        } catch (emailError) {
+          logger.error('Failed to send password reset email:', emailError);
+        }
+      }
 
       res.status(200).json({
         success: true,
@@ -201,6 +602,51 @@ export class AuthController {
     }
   };
 
+  // Unlock an account locked after failed logins
+  unlockAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = unlockAccountSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.authService.unlockAccount(value.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account unlocked successfully. You can now sign in.'
+      });
+
+      logger.info(`Account unlocked: ${user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Validate password reset token before showing the reset form
+  validateResetToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.params;
+
+      if (!token) {
+        throw new BadRequestError('Reset token is required');
+      }
+
+      const { expiresAt } = await this.authService.validatePasswordResetToken(token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Reset token is valid',
+        data: {
+          valid: true,
+          expiresAt
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Reset password
   resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -211,7 +657,14 @@ export class AuthController {
 
       const { token, password } = value;
 
-      await this.authService.resetPassword(token, password);
+      const user = await this.authService.resetPassword(token, password);
+
+      // Confirmation email is best-effort; the password has already changed
+      try {
+        await this.emailService.sendPasswordChangedEmail(user.email, user.firstName);
+      } catch (emailError) {
+        logger.error('Failed to send password changed email:', emailError);
+      }
 
       res.status(200).json({
         success: true,
@@ -223,4 +676,50 @@ export class AuthController {
       next(error);
     }
   };
-}
\ No newline at end of file
+
+  // Change password for the authenticated user
+  changePassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = changePasswordSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.authService.changePassword(
+        req.user.id,
+        value as ChangePasswordRequest,
+        req.user.sessionId
+      );
+
+      // Notification is best-effort; the password has already changed
+      try {
+        await this.emailService.sendPasswordChangedEmail(user.email, user.firstName);
+      } catch (emailError) {
+        logger.error('Failed to send password changed email:', emailError);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully'
+      });
+
+      logger.info(`Password changed for user: ${user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private sendLoginResult(res: Response, result: AuthenticatedUser | MfaChallenge): void {
+    const { message, data } = toLoginResponse(result);
+
+    res.status(200).json({
+      success: true,
+      message,
+      data
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { AuthService } from '../services/AuthService';
+import { OAuthFlowService, OAUTH_STATE_COOKIE, OAUTH_STATE_TTL_SECONDS } from '../services/OAuthFlowService';
+import { config } from '@/config';
+import { AppError, ValidationError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+import { getSessionContext } from '@/utils/sessionContext';
+import { toLoginResponse } from '@/utils/loginResponse';
+import Joi from 'joi';
+
+const exchangeCodeSchema = Joi.object({
+  code: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Sign-in code is required'
+    })
+});
+
+export class OAuthController {
+  private authService: AuthService;
+  private oauthFlowService: OAuthFlowService;
+
+  constructor() {
+    this.authService = new AuthService();
+    this.oauthFlowService = new OAuthFlowService();
+  }
+
+  // Redirect the browser to the provider's consent screen
+  start = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { url, browserBinding, formPost } = await this.oauthFlowService.createAuthorizationUrl(req.params.provider);
+
+      // Ties the state to this browser; form_post callbacks arrive cross-site, so need SameSite=None
+      res.cookie(OAUTH_STATE_COOKIE, browserBinding, {
+        ...this.stateCookieOptions(),
+        maxAge: OAUTH_STATE_TTL_SECONDS * 1000,
+        sameSite: formPost ? 'none' : 'lax',
+        secure: formPost || config.server.nodeEnv === 'production'
+      });
+      res.redirect(302, url);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Provider redirect target; always sends the browser back to the frontend
+  callback = async (req: Request, res: Response): Promise<void> => {
+    const { provider } = req.params;
+    // Apple posts the response (form_post); everyone else uses the query string
+    const params = req.method === 'POST' ? req.body : req.query;
+    const browserBinding = this.readCookie(req, OAUTH_STATE_COOKIE);
+    res.clearCookie(OAUTH_STATE_COOKIE, this.stateCookieOptions());
+
+    try {
+      if (params.error) {
+        throw new AppError(`${provider} sign-in was cancelled or denied`, 400);
+      }
+
+      if (typeof params.code !== 'string' || typeof params.state !== 'string') {
+        throw new AppError('Missing authorization code or state', 400);
+      }
+
+      const { idToken, nonce } = await this.oauthFlowService.handleCallback(provider, params.code, params.state, browserBinding);
+      const result = await this.authService.authenticateWithOidc(provider, idToken, nonce, getSessionContext(req));
+      const exchangeCode = await this.oauthFlowService.createExchangeCode(toLoginResponse(result));
+
+      res.redirect(302, `${config.oauth.frontendCallbackUrl}?${new URLSearchParams({ code: exchangeCode })}`);
+    } catch (error) {
+      logger.error(`OAuth callback failed for ${provider}:`, error);
+      const message = error instanceof AppError ? error.message : 'Sign-in failed. Please try again.';
+      res.redirect(302, `${config.oauth.frontendCallbackUrl}?${new URLSearchParams({ error: message })}`);
+    }
+  };
+
+  // Redeem the one-time code from the callback redirect for the sign-in result
+  exchange = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = exchangeCodeSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const { message, data } = await this.oauthFlowService.redeemExchangeCode(value.code);
+
+      res.status(200).json({
+        success: true,
+        message,
+        data
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // The state cookie is only ever sent to the provider callbacks
+  private stateCookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      path: new URL(config.oauth.callbackBaseUrl).pathname
+    };
+  }
+
+  // Without cookie-parser, read a single cookie from the header
+  private readCookie(req: Request, name: string): string | undefined {
+    const cookie = (req.headers.cookie || '')
+      .split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(`${name}=`));
+
+    return cookie ? decodeURIComponent(cookie.substring(name.length + 1)) : undefined;
+  }
+}
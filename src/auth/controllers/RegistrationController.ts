@@ -1,21 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import { RegistrationSession } from '../models/RegistrationSession';
 import { User } from '../models/User';
-import { AuthService } from '../services/AuthService';
+import { UserIdentity } from '../models/UserIdentity';
+import { RegistrationEvent } from '../models/RegistrationEvent';
 import { EmailService } from '../services/EmailService';
 import { OAuthProvider } from '../types/auth';
 import { GoogleOAuthService } from '../services/GoogleOAuthService';
+import { OidcService } from '../services/OidcService';
+import { VerificationResendService } from '../services/VerificationResendService';
+import { RegistrationReminderService } from '../services/RegistrationReminderService';
+import { RegistrationFlowService, RegistrationStepError, StepSubmissionMode } from '../services/RegistrationFlowService';
 import { AppError, ValidationError, BadRequestError } from '@/utils/AppError';
 import { logger } from '@/utils/logger';
-import { getDatabase } from '@/database/connection';
+import { getSessionContext } from '@/utils/sessionContext';
+import { config } from '@/config';
 import { 
   RegistrationStep, 
-  BusinessTypeOption,
-  EmailStepData,
-  PersonalInfoStepData,
-  BusinessTypeStepData,
-  ShopDetailsStepData,
-  LocationStepData
+  EmailStepData
 } from '../types/auth';
 import Joi from 'joi';
 
@@ -27,43 +28,36 @@ const emailStepSchema = Joi.object({
   })
 });
 
-const personalInfoStepSchema = Joi.object({
-  firstName: Joi.string().min(2).max(50).required(),
-  lastName: Joi.string().min(2).max(50).required(),
-  password: Joi.string().min(8).pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]')).when('$isOAuth', {
-    is: false,
-    then: Joi.required(),
-    otherwise: Joi.optional()
+const verifyCodeSchema = Joi.object({
+  sessionToken: Joi.string().required(),
+  code: Joi.string().pattern(/^\d{6}$/).required().messages({
+    'string.pattern.base': 'Verification code must be 6 digits'
   })
 });
 
-const businessTypeStepSchema = Joi.object({
-  businessType: Joi.string().valid(...Object.values(BusinessTypeOption)).required()
-});
-
-const shopDetailsSchema = Joi.object({
-  sessionToken: Joi.string().required(),
-  businessName: Joi.string().min(2).max(100).required(),
-  businessDescription: Joi.string().min(10).max(500).required(),
-  customShopUrl: Joi.string().pattern(/^[a-z0-9-]+\.celm\.com$/).optional()
+const resendVerificationSchema = Joi.object({
+  sessionToken: Joi.string().required()
 });
 
-const locationStepSchema = Joi.object({
-  country: Joi.string().min(2).max(100).required(),
-  state: Joi.string().min(2).max(100).required(),
-  localGovernment: Joi.string().min(2).max(100).required(),
-  address: Joi.string().min(5).max(255).required()
+const resumeTokenSchema = Joi.object({
+  token: Joi.string().required()
 });
 
 export class RegistrationController {
-  private authService: AuthService;
+  private registrationFlowService: RegistrationFlowService;
   private emailService: EmailService;
   private googleOAuthService: GoogleOAuthService;
+  private oidcService: OidcService;
+  private verificationResendService: VerificationResendService;
+  private registrationReminderService: RegistrationReminderService;
 
   constructor() {
-    this.authService = new AuthService();
+    this.registrationFlowService = new RegistrationFlowService();
     this.emailService = new EmailService();
     this.googleOAuthService = new GoogleOAuthService();
+    this.oidcService = new OidcService();
+    this.verificationResendService = new VerificationResendService();
+    this.registrationReminderService = new RegistrationReminderService();
   }
 
   // Step 1: Email input and session creation
@@ -82,12 +76,33 @@ export class RegistrationController {
         throw new BadRequestError('User with this email already exists');
       }
 
+      // The session token only goes back by email, so knowing an address isn't enough to take over its registration
+      const existingSession = await RegistrationSession.findByEmail(email);
+      if (existingSession && existingSession.expiresAt > new Date()) {
+        await this.continueRegistration(existingSession);
+
+        res.status(200).json({
+          success: true,
+          message: 'A registration is already in progress for this email. Please check your email to continue.',
+          data: existingSession.toExpiryJSON()
+        });
+        return;
+      }
+
       // Create registration session
       const session = await RegistrationSession.createSession(email);
+      await RegistrationEvent.record(session, 'started');
 
       // Send verification email for manual registration
       if (!session.emailVerified) {
-        await this.emailService.sendVerificationEmail(email, session.verificationToken!, session.sessionToken);
+        const code = await session.createVerificationCode();
+        await this.emailService.sendVerificationEmail(
+          email,
+          session.verificationToken!,
+          session.sessionToken,
+          code,
+          config.registration.verificationCodeExpiryMinutes
+        );
       }
 
       res.status(201).json({
@@ -96,7 +111,8 @@ export class RegistrationController {
         data: {
           sessionToken: session.sessionToken,
           currentStep: session.currentStep,
-          emailVerified: session.emailVerified
+          emailVerified: session.emailVerified,
+          ...session.toExpiryJSON()
         }
       });
 
@@ -125,17 +141,15 @@ export class RegistrationController {
         throw new BadRequestError('Invalid verification token');
       }
 
-      session.emailVerified = true;
-      session.verificationToken = undefined;
-      session.currentStep = RegistrationStep.PERSONAL_INFO;
-      await session.save();
+      await this.markEmailVerified(session);
 
       res.status(200).json({
         success: true,
         message: 'Email verified successfully',
         data: {
           sessionToken: session.sessionToken,
-          currentStep: session.currentStep
+          currentStep: session.currentStep,
+          ...session.toExpiryJSON()
         }
       });
     } catch (error) {
@@ -143,66 +157,160 @@ export class RegistrationController {
     }
   };
 
-  // Google OAuth registration
-  googleAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Verify email with the 6-digit code from the verification email
+  verifyCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { googleToken } = req.body;
+      const { error, value } = verifyCodeSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
 
-      if (!googleToken) {
-        throw new BadRequestError('Google token is required');
+      const session = await RegistrationSession.findByToken(value.sessionToken);
+      if (!session) {
+        throw new BadRequestError('Invalid or expired registration session');
       }
 
-      const profile = await this.googleOAuthService.verifyToken(googleToken);
+      if (session.emailVerified) {
+        throw new BadRequestError('Email is already verified');
+      }
 
-      // Check if user already exists
-      const existingUser = await User.findByEmail(profile.email);
-      if (existingUser) {
-        throw new BadRequestError('User with this email already exists');
+      if (!await session.checkVerificationCode(value.code)) {
+        // New codes can't help once the attempts are used up; the emailed link still works
+        throw new BadRequestError(session.hasVerificationCodeAttemptsLeft()
+          ? 'Invalid or expired verification code. Request a new verification email if needed.'
+          : 'Too many incorrect codes. Verify your email with the link in your verification email instead.');
       }
 
-      // Create OAuth session
-      const session = await RegistrationSession.createOAuthSession(profile.email, OAuthProvider.GOOGLE, profile);
+      await this.markEmailVerified(session);
 
-      res.status(201).json({
+      res.status(200).json({
         success: true,
-        message: 'Google authentication successful',
+        message: 'Email verified successfully',
         data: {
           sessionToken: session.sessionToken,
           currentStep: session.currentStep,
-          profile: {
-            email: profile.email,
-            firstName: profile.given_name,
-            lastName: profile.family_name
+          ...session.toExpiryJSON()
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Resend the verification email with a fresh token
+  resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = resendVerificationSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const session = await RegistrationSession.findByToken(value.sessionToken);
+      if (!session) {
+        throw new BadRequestError('Invalid or expired registration session');
+      }
+
+      if (session.emailVerified) {
+        throw new BadRequestError('Email is already verified');
+      }
+
+      const allowance = await this.verificationResendService.reserve(session.email);
+      if (!allowance.allowed) {
+        res.set('Retry-After', allowance.retryAfterSeconds.toString());
+        res.status(429).json({
+          success: false,
+          message: `Please wait ${allowance.retryAfterSeconds} second(s) before requesting another verification email`,
+          data: {
+            retryAfterSeconds: allowance.retryAfterSeconds,
+            ...session.toExpiryJSON()
           }
+        });
+        return;
+      }
+
+      // A new token means links in earlier emails stop working
+      session.verificationToken = RegistrationSession.generateVerificationToken();
+      const code = await session.createVerificationCode();
+
+      await this.emailService.sendVerificationEmail(
+        session.email,
+        session.verificationToken,
+        session.sessionToken,
+        code,
+        config.registration.verificationCodeExpiryMinutes
+      );
+
+      res.status(200).json({
+        success: true,
+        message: code
+          ? 'Verification email sent. Please check your inbox.'
+          : 'Verification email sent. Too many incorrect codes were entered, so use the link in the email to verify.',
+        data: {
+          retryAfterSeconds: allowance.retryAfterSeconds,
+          ...session.toExpiryJSON()
         }
       });
+
+      logger.info(`Verification email resent for email: ${session.email}`);
     } catch (error) {
       next(error);
     }
   };
 
-  // Step 2: Personal information
-  submitPersonalInfo = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Email a link that continues an in-progress registration on another device
+  requestResume = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { sessionToken } = req.headers;
-      const session = await this.validateSession(sessionToken as string, RegistrationStep.EMAIL_INPUT);
+      const { error, value } = emailStepSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
 
-      const { error, value } = personalInfoStepSchema.validate(req.body, {
-        context: { isOAuth: !!session.oauthProvider }
+      const { email } = value as EmailStepData;
+
+      // Respond the same either way so this can't be used to probe for sign-ups
+      const session = await RegistrationSession.findByEmail(email);
+      if (session && session.expiresAt > new Date()) {
+        const resumeToken = await session.createResumeToken();
+        await this.emailService.sendRegistrationResumeEmail(
+          email,
+          resumeToken,
+          this.registrationFlowService.stepNumber(session),
+          session.totalSteps,
+          config.registration.resumeLinkExpiryMinutes
+        );
+        logger.info(`Registration resume link sent for email: ${email}`);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'If a registration is in progress for this email, a link to continue it has been sent.'
       });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Exchange a resume link for the session token
+  consumeResume = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = resumeTokenSchema.validate(req.body);
       if (error) {
         throw new ValidationError(error.details.map(detail => detail.message).join(', '));
       }
 
-      await session.updateStep(RegistrationStep.PERSONAL_INFO, value);
-      await session.nextStep();
+      const session = await RegistrationSession.claimResumeToken(value.token);
+      if (!session) {
+        throw new BadRequestError('Invalid or expired registration link');
+      }
+
+      await session.extendExpiry();
 
       res.status(200).json({
         success: true,
-        message: 'Personal information saved',
+        message: 'Registration resumed',
         data: {
           sessionToken: session.sessionToken,
-          currentStep: session.currentStep
+          ...session.toProgressJSON()
         }
       });
     } catch (error) {
@@ -210,26 +318,93 @@ export class RegistrationController {
     }
   };
 
-  // Step 3: Business type
-  submitBusinessType = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Current step, saved step data and expiry of a registration session
+  getSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { sessionToken } = req.headers;
-      const session = await this.validateSession(sessionToken as string, RegistrationStep.PERSONAL_INFO);
+      const session = await this.validateSession(req.header('sessionToken') as string);
+
+      res.status(200).json({
+        success: true,
+        data: session.toProgressJSON()
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Keep a registration session alive while the user is active
+  extendSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const session = await this.validateSession(req.header('sessionToken') as string);
+
+      await session.extendExpiry();
 
-      const { error, value } = businessTypeStepSchema.validate(req.body);
+      res.status(200).json({
+        success: true,
+        message: 'Registration session extended',
+        data: session.toExpiryJSON()
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Opt an email address out of "finish setting up your shop" reminders
+  unsubscribeReminders = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = resumeTokenSchema.validate(req.body);
       if (error) {
         throw new ValidationError(error.details.map(detail => detail.message).join(', '));
       }
 
-      await session.updateStep(RegistrationStep.BUSINESS_TYPE, value);
-      await session.nextStep();
+      if (!await this.registrationReminderService.unsubscribe(value.token)) {
+        throw new BadRequestError('Invalid unsubscribe link');
+      }
 
       res.status(200).json({
         success: true,
-        message: 'Business type selected',
+        message: 'You will no longer receive registration reminders'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Google OAuth registration
+  googleAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { googleToken } = req.body;
+
+      if (!googleToken) {
+        throw new BadRequestError('Google token is required');
+      }
+
+      const profile = await this.googleOAuthService.verifyToken(googleToken);
+
+      // Check if user already exists
+      const existingUser = await User.findByEmail(profile.email);
+      if (existingUser) {
+        throw new BadRequestError('User with this email already exists');
+      }
+
+      // Create OAuth session
+      const session = await RegistrationSession.createOAuthSession(profile.email, OAuthProvider.GOOGLE, profile);
+      // Provider emails are already verified
+      await RegistrationEvent.record(session, 'started');
+      await RegistrationEvent.record(session, 'verified');
+
+      res.status(201).json({
+        success: true,
+        message: 'Google authentication successful',
         data: {
           sessionToken: session.sessionToken,
-          currentStep: session.currentStep
+          currentStep: session.currentStep,
+          profile: {
+            email: profile.email,
+            firstName: profile.given_name,
+            lastName: profile.family_name
+          },
+          ...session.toExpiryJSON()
         }
       });
     } catch (error) {
@@ -237,62 +412,49 @@ export class RegistrationController {
     }
   };
 
-  // Step 4: Shop details with auto-generated URL
-  submitShopDetails = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Registration with any configured OIDC provider
+  oidcAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { sessionToken, businessName, businessDescription, customShopUrl } = req.body;
-      
-      const session = await RegistrationSession.findByToken(sessionToken);
-      if (!session) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid or expired session'
-        });
-        return; // Use return instead of return res.status()
+      const { provider } = req.params;
+      const { idToken, nonce } = req.body;
+
+      if (!idToken) {
+        throw new BadRequestError('ID token is required');
       }
 
-      let shopUrl: string;
-      
-      if (customShopUrl) {
-        // User provided custom URL
-        if (!RegistrationSession.validateShopUrlFormat(customShopUrl)) {
-          res.status(400).json({
-            success: false,
-            message: 'Invalid shop URL format. Use only letters, numbers, and hyphens.',
-            suggestions: await RegistrationSession.getShopUrlSuggestions(businessName)
-          });
-          return; // Use return instead of return res.status()
-        }
-        
-        if (!await RegistrationSession.isShopUrlAvailable(customShopUrl)) {
-          res.status(400).json({
-            success: false,
-            message: 'Shop URL is already taken',
-            suggestions: await RegistrationSession.getShopUrlSuggestions(businessName)
-          });
-          return; // Use return instead of return res.status()
-        }
-        
-        shopUrl = customShopUrl;
-      } else {
-        // Auto-generate unique URL
-        shopUrl = await RegistrationSession.generateUniqueShopUrl(businessName);
+      const profile = await this.oidcService.verifyIdToken(provider, idToken, nonce);
+
+      // The email becomes the account email, so the provider must vouch for it
+      if (!profile.verified_email) {
+        throw new BadRequestError(`Your ${provider} email address is not verified`);
       }
 
-      await session.updateStep(RegistrationStep.SHOP_DETAILS, {
-        businessName,
-        businessDescription,
-        shopUrl
-      });
+      if (await UserIdentity.findByProvider(provider, profile.id)) {
+        throw new BadRequestError(`This ${provider} account is already registered. Please sign in instead.`);
+      }
 
-      res.json({
+      const existingUser = await User.findByEmail(profile.email);
+      if (existingUser) {
+        throw new BadRequestError('User with this email already exists');
+      }
+
+      const session = await RegistrationSession.createOAuthSession(profile.email, provider, profile);
+      // Provider emails are already verified
+      await RegistrationEvent.record(session, 'started');
+      await RegistrationEvent.record(session, 'verified');
+
+      res.status(201).json({
         success: true,
-        message: 'Shop details saved successfully',
+        message: `${provider} authentication successful`,
         data: {
           sessionToken: session.sessionToken,
           currentStep: session.currentStep,
-          shopUrl, // Return the generated/validated URL
-          suggestions: await RegistrationSession.getShopUrlSuggestions(businessName) // For frontend display
+          profile: {
+            email: profile.email,
+            firstName: profile.given_name,
+            lastName: profile.family_name
+          },
+          ...session.toExpiryJSON()
         }
       });
     } catch (error) {
@@ -313,52 +475,60 @@ export class RegistrationController {
         return; // Use return instead of return res.status()
       }
       
+      // URLs reserved by the caller's own registration count as available to it
+      const sessionToken = req.header('sessionToken');
+      const session = sessionToken ? await RegistrationSession.findByToken(sessionToken) : null;
+
       if (!RegistrationSession.validateShopUrlFormat(shopUrl)) {
         res.status(400).json({
           success: false,
           available: false,
           message: 'Invalid shop URL format',
           suggestions: businessName ? 
-            await RegistrationSession.getShopUrlSuggestions(businessName as string) : []
+            await RegistrationSession.getShopUrlSuggestions(businessName as string, 5, session?.id) : [],
+          ...session?.toExpiryJSON()
         });
         return; // Use return instead of return res.status()
       }
       
-      const isAvailable = await RegistrationSession.isShopUrlAvailable(shopUrl);
+      const isAvailable = await RegistrationSession.isShopUrlAvailable(shopUrl, session?.id);
       
       res.json({
         success: true,
         available: isAvailable,
         message: isAvailable ? 'Shop URL is available' : 'Shop URL is already taken',
         suggestions: !isAvailable && businessName ? 
-          await RegistrationSession.getShopUrlSuggestions(businessName as string) : []
+          await RegistrationSession.getShopUrlSuggestions(businessName as string, 5, session?.id) : [],
+        ...session?.toExpiryJSON()
       });
     } catch (error) {
       next(error);
     }
   };
-  // Step 5: Location and complete registration
-  submitLocation = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Describe the registration steps so clients can render the flow
+  getSteps = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { sessionToken } = req.headers;
-      const session = await this.validateSession(sessionToken as string, RegistrationStep.SHOP_DETAILS);
-
-      const { error, value } = locationStepSchema.validate(req.body);
-      if (error) {
-        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
-      }
+      res.status(200).json({
+        success: true,
+        data: {
+          steps: this.registrationFlowService.describeSteps()
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      await session.updateStep(RegistrationStep.LOCATION, value);
-      
-      // Complete registration
-      const result = await this.completeRegistration(session);
+  // Saved answers for an earlier step
+  getStepData = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const session = await this.validateSession(req.header('sessionToken') as string);
 
-      res.status(201).json({
+      res.status(200).json({
         success: true,
-        message: 'Registration completed successfully! Welcome to Celm!',
         data: {
-          user: result.user,
-          tokens: result.tokens
+          ...this.registrationFlowService.getStepData(session, req.params.step),
+          ...session.toExpiryJSON()
         }
       });
     } catch (error) {
@@ -366,6 +536,12 @@ export class RegistrationController {
     }
   };
 
+  // Submit any registration step; the step registry does validation, persistence and side effects
+  submitStep = (req: Request, res: Response, next: NextFunction): Promise<void> => this.saveStep(req, res, next, 'submit');
+
+  // Edit a step that already has answers; only the changed fields need to be sent
+  editStep = (req: Request, res: Response, next: NextFunction): Promise<void> => this.saveStep(req, res, next, 'edit');
+
   // Helper: Generate unique shop URL
   // private async generateUniqueShopUrl(businessName: string): Promise<string> {
   //   let baseUrl = businessName
@@ -387,7 +563,7 @@ export class RegistrationController {
   // }
 
   // Helper: Validate session
-  private async validateSession(sessionToken: string, requiredStep: RegistrationStep): Promise<RegistrationSession> {
+  private async validateSession(sessionToken: string): Promise<RegistrationSession> {
     if (!sessionToken) {
       throw new BadRequestError('Session token is required');
     }
@@ -397,51 +573,96 @@ export class RegistrationController {
       throw new BadRequestError('Invalid or expired registration session');
     }
 
-    if (session.currentStep < requiredStep) {
-      throw new BadRequestError(`Please complete previous steps first`);
+    return session;
+  }
+
+  // Helper: Submit or edit a step and report the outcome
+  private async saveStep(req: Request, res: Response, next: NextFunction, mode: StepSubmissionMode): Promise<void> {
+    let session: RegistrationSession | undefined;
+
+    try {
+      // Older clients send the session token in the body rather than the header
+      const { sessionToken, ...input } = req.body;
+      session = await this.validateSession(req.header('sessionToken') || sessionToken);
+
+      const result = await this.registrationFlowService.submitStep(session, req.params.step, input, getSessionContext(req), mode);
+
+      if (result.registration) {
+        res.status(201).json({
+          success: true,
+          message: result.message,
+          data: result.registration
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: {
+          sessionToken: session.sessionToken,
+          currentStep: result.currentStep,
+          ...result.response,
+          ...session.toExpiryJSON()
+        }
+      });
+    } catch (error) {
+      if (error instanceof RegistrationStepError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          ...error.details,
+          data: session?.toExpiryJSON()
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  // Helper: Email the way back into a registration that was already started
+  private async continueRegistration(session: RegistrationSession): Promise<void> {
+    if (!session.emailVerified) {
+      // Same cooldown and daily cap as /resend-verification; the response doesn't say whether an email went out
+      const allowance = await this.verificationResendService.reserve(session.email);
+      if (!allowance.allowed) {
+        logger.info(`Verification resend throttled for email: ${session.email}`);
+        return;
+      }
+
+      session.verificationToken = RegistrationSession.generateVerificationToken();
+      const code = await session.createVerificationCode();
+      await this.emailService.sendVerificationEmail(
+        session.email,
+        session.verificationToken,
+        session.sessionToken,
+        code,
+        config.registration.verificationCodeExpiryMinutes
+      );
+      return;
     }
 
-    return session;
+    const resumeToken = await session.createResumeToken();
+    await this.emailService.sendRegistrationResumeEmail(
+      session.email,
+      resumeToken,
+      this.registrationFlowService.stepNumber(session),
+      session.totalSteps,
+      config.registration.resumeLinkExpiryMinutes
+    );
+    logger.info(`Registration resume link sent for email: ${session.email}`);
   }
 
-  // Complete registration
-  private async completeRegistration(session: RegistrationSession): Promise<any> {
-    const db = getDatabase();
-    
-    return await db.transaction(async (trx) => {
-      // Create user with business data embedded
-      const userData = {
-        email: session.email,
-        firstName: session.stepData.step2!.firstName,
-        lastName: session.stepData.step2!.lastName,
-        password: session.stepData.step2!.password,
-        shopUrl: session.stepData.step4!.shopUrl,
-        businessName: session.stepData.step4!.businessName,
-        businessDescription: session.stepData.step4!.businessDescription,
-        businessType: session.stepData.step3!.businessType,
-        location: session.stepData.step5!,
-        oauthProvider: session.oauthProvider,
-        oauthId: session.oauthId,
-        isActive: true,
-        emailVerified: true
-      };
-
-      const user = new User(userData);
-      const savedUser = await user.saveWithTransaction(trx);
-
-      // Generate tokens
-      const tokens = await this.authService.generateTokens(savedUser);
-
-      // Send welcome email
-      await this.emailService.sendWelcomeEmail(savedUser.email, savedUser.firstName);
-
-      // Clean up session
-      await session.delete();
-
-      return {
-        user: savedUser.toSafeJSON(),
-        tokens
-      };
-    });
+  // Helper: Mark the email verified (by link or code) and move on to personal info
+  private async markEmailVerified(session: RegistrationSession): Promise<void> {
+    session.emailVerified = true;
+    session.verificationToken = undefined;
+    session.verificationCode = undefined;
+    session.verificationCodeExpiresAt = undefined;
+    session.currentStep = RegistrationStep.PERSONAL_INFO;
+    session.slideExpiry();
+    await session.save();
+
+    await RegistrationEvent.record(session, 'verified');
   }
 }
\ No newline at end of file
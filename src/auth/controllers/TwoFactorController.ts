@@ -0,0 +1,254 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/AuthService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { User } from '../models/User';
+import { ValidationError, BadRequestError, UnauthorizedError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+import { getSessionContext } from '@/utils/sessionContext';
+import Joi from 'joi';
+
+const verifySetupSchema = Joi.object({
+  code: Joi.string()
+    .pattern(/^\d{6}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Authentication code must be 6 digits',
+      'any.required': 'Authentication code is required'
+    })
+});
+
+// Either a TOTP code or a recovery code, never both
+const secondFactorSchema = Joi.object({
+  code: Joi.string()
+    .pattern(/^\d{6}$/)
+    .messages({
+      'string.pattern.base': 'Authentication code must be 6 digits'
+    }),
+  recoveryCode: Joi.string().max(32)
+}).xor('code', 'recoveryCode').messages({
+  'object.missing': 'An authentication code or recovery code is required',
+  'object.xor': 'Provide either an authentication code or a recovery code, not both'
+});
+
+const mfaLoginSchema = secondFactorSchema.keys({
+  mfaToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'MFA token is required'
+    })
+});
+
+const resendLoginCodeSchema = Joi.object({
+  mfaToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'MFA token is required'
+    })
+});
+
+export class TwoFactorController {
+  private authService: AuthService;
+  private twoFactorService: TwoFactorService;
+
+  constructor() {
+    this.authService = new AuthService();
+    this.twoFactorService = new TwoFactorService();
+  }
+
+  // Start TOTP enrollment
+  setup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await this.getCurrentUser(req);
+      const setup = await this.twoFactorService.beginSetup(user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then verify a code to finish setup',
+        data: setup
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Confirm enrollment and return recovery codes
+  verify = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = verifySetupSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.getCurrentUser(req);
+      const recoveryCodes = await this.twoFactorService.confirmSetup(user, value.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe; they will not be shown again.',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Start email-code enrollment
+  setupEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await this.getCurrentUser(req);
+      await this.twoFactorService.beginEmailSetup(user);
+
+      res.status(200).json({
+        success: true,
+        message: 'We sent a verification code to your email. Enter it to finish setup.'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Confirm email-code enrollment and return recovery codes
+  verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = verifySetupSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.getCurrentUser(req);
+      const recoveryCodes = await this.twoFactorService.confirmEmailSetup(user, value.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe; they will not be shown again.',
+        data: { recoveryCodes }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Turn two-factor off
+  disable = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = secondFactorSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const user = await this.getCurrentUser(req);
+      await this.twoFactorService.disable(user, value);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Second login phase
+  login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = mfaLoginSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const { mfaToken, ...factor } = value;
+      const result = await this.authService.completeMfaLogin(mfaToken, factor, getSessionContext(req));
+      const remainingRecoveryCodes = await this.twoFactorService.countRemainingRecoveryCodes(result.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          user: result.user.toSafeJSON(),
+          tokens: result.tokens,
+          remainingRecoveryCodes
+        }
+      });
+
+      logger.info(`User logged in with two-factor authentication: ${result.user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Send another emailed login code for a pending challenge
+  resendLoginCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { error, value } = resendLoginCodeSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      await this.authService.resendMfaLoginCode(value.mfaToken);
+
+      res.status(200).json({
+        success: true,
+        message: 'We sent a new code to your email'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Email a code for step-up authentication
+  sendStepUpCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      await this.authService.sendStepUpCode(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'We sent a verification code to your email'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Prove a fresh factor and get an access token allowed to perform sensitive operations
+  stepUp = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        throw new BadRequestError('User not authenticated');
+      }
+
+      const { error, value } = secondFactorSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+      }
+
+      const result = await this.authService.stepUp(req.user.id, req.user.sessionId, value, req.user.amr);
+
+      res.status(200).json({
+        success: true,
+        message: 'Identity confirmed',
+        data: result
+      });
+
+      logger.info(`Step-up authentication completed: ${req.user.email}`);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private async getCurrentUser(req: Request): Promise<User> {
+    if (!req.user?.id) {
+      throw new BadRequestError('User not authenticated');
+    }
+
+    const user = await User.findById(req.user.id);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { getOptionalRedisService } from '@/database/redis';
+import { logger } from '@/utils/logger';
+
+// Runs a sweep on a timer inside the app process, so requests never pay for it.
+// A Redis lock lets one instance sweep at a time; without Redis every instance sweeps,
+// so each sweep must stay safe to run concurrently.
+export abstract class LockedIntervalJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly instanceId = crypto.randomUUID();
+
+  // name is used in log lines, e.g. 'Registration cleanup'
+  protected constructor(private readonly name: string, private readonly lockKey: string) {}
+
+  protected abstract intervalMinutes(): number;
+
+  protected abstract sweep(): Promise<void>;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMinutes = this.intervalMinutes();
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't hold the process open just for the sweep
+    this.timer.unref();
+    logger.info(`${this.name} job scheduled every ${intervalMinutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // One sweep; skipped while another instance holds the lock
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const redis = getOptionalRedisService();
+    let locked = false;
+
+    try {
+      if (redis) {
+        // The lock lapses after one interval if this instance dies mid-sweep
+        locked = await redis.setIfAbsent(this.lockKey, this.instanceId, this.intervalMinutes() * 60);
+        if (!locked) {
+          logger.debug(`${this.name} skipped - another instance holds the lock`);
+          return;
+        }
+      } else {
+        logger.warn(`Redis unavailable - ${this.name.toLowerCase()} running without a lock`);
+      }
+
+      await this.sweep();
+    } catch (error) {
+      logger.error(`${this.name} failed:`, error);
+    } finally {
+      if (redis && locked) {
+        await redis.deleteIfEquals(this.lockKey, this.instanceId);
+      }
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { config } from '@/config';
+import { RegistrationSession } from '../models/RegistrationSession';
+import { logger } from '@/utils/logger';
+import { LockedIntervalJob } from './LockedIntervalJob';
+
+// Deletes expired registration sessions. Without the lock each expired session is still
+// removed (and its expiry recorded) once.
+export class RegistrationCleanupJob extends LockedIntervalJob {
+  constructor() {
+    super('Registration cleanup', 'jobs:registration-cleanup:lock');
+  }
+
+  protected intervalMinutes(): number {
+    return config.registration.cleanupIntervalMinutes;
+  }
+
+  protected async sweep(): Promise<void> {
+    const removed = await RegistrationSession.cleanupExpiredSessions();
+    if (removed > 0) {
+      logger.info(`Registration cleanup removed ${removed} expired session(s)`);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { config } from '@/config';
+import { RegistrationReminderService } from '../services/RegistrationReminderService';
+import { logger } from '@/utils/logger';
+import { LockedIntervalJob } from './LockedIntervalJob';
+
+// Emails reminders for unfinished registrations. Without the lock the per-session claim
+// still keeps each reminder to a single email.
+export class RegistrationReminderJob extends LockedIntervalJob {
+  private reminderService: RegistrationReminderService;
+
+  constructor() {
+    super('Registration reminder sweep', 'jobs:registration-reminders:lock');
+    this.reminderService = new RegistrationReminderService();
+  }
+
+  start(): void {
+    if (!config.registration.reminders.enabled) {
+      return;
+    }
+
+    super.start();
+  }
+
+  protected intervalMinutes(): number {
+    return config.registration.reminders.checkIntervalMinutes;
+  }
+
+  protected async sweep(): Promise<void> {
+    const sent = await this.reminderService.sendDueReminders();
+    if (sent > 0) {
+      logger.info(`Registration reminder sweep sent ${sent} reminder(s)`);
+    }
+  }
+}
@@ -32,7 +32,13 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       firstName: user.firstName,
       lastName: user.lastName,
       shopUrl: user.shopUrl || '',
-      businessName: user.businessName || ''
+      businessName: user.businessName || '',
+      sessionId: payload.sessionId,
+      tokenId: payload.jti,
+      tokenExpiresAt: payload.exp,
+      authTime: payload.auth_time,
+      amr: payload.amr,
+      role: user.role
     };
 
     next();
@@ -61,7 +67,13 @@ export const optionalAuthMiddleware = async (req: Request, res: Response, next:
             firstName: user.firstName,
             lastName: user.lastName,
             shopUrl: user.shopUrl || '',
-            businessName: user.businessName || ''
+            businessName: user.businessName || '',
+            sessionId: payload.sessionId,
+            tokenId: payload.jti,
+            tokenExpiresAt: payload.exp,
+            authTime: payload.auth_time,
+            amr: payload.amr,
+            role: user.role
           };
         }
       } catch (error) {
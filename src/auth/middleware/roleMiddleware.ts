@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '../models/User';
+import { UnauthorizedError, ForbiddenError } from '@/utils/AppError';
+
+// Allow only users with one of the given roles; use after authMiddleware
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError('Access token is required'));
+      return;
+    }
+
+    if (!req.user.role || !roles.includes(req.user.role)) {
+      next(new ForbiddenError('You do not have access to this resource'));
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { requireStepUp, requireStepUpWhen } from './stepUpMiddleware';
+import { StepUpRequiredError } from '@/utils/AppError';
+import { AuthMethod } from '../types/auth';
+import { User } from '../models/User';
+
+describe('requireStepUp', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const run = (authTime: number | undefined, amr: AuthMethod[] | undefined) => {
+    const req = { user: { id: 'user-1', authTime, amr } } as unknown as Request;
+    const res = { setHeader: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+
+    requireStepUp(10)(req, res, next);
+    return { res, error: next.mock.calls[0][0] };
+  };
+
+  it.each<[string, AuthMethod[]]>([
+    ['TOTP', ['pwd', 'otp', 'mfa']],
+    ['emailed code', ['link', 'email']],
+    ['recovery code', ['oauth', 'recovery']]
+  ])('passes a recent %s', (_, amr) => {
+    expect(run(now - 60, amr).error).toBeUndefined();
+  });
+
+  it.each<[string, AuthMethod[]]>([
+    ['password', ['pwd']],
+    ['magic link', ['link']],
+    ['social sign-in', ['oauth']]
+  ])('rejects a fresh %s-only sign-in', (_, amr) => {
+    const { res, error } = run(now, amr);
+
+    expect(error).toBeInstanceOf(StepUpRequiredError);
+    expect(res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('insufficient_user_authentication'));
+  });
+
+  it('rejects a second factor older than the max age', () => {
+    expect(run(now - 11 * 60, ['pwd', 'otp']).error).toBeInstanceOf(StepUpRequiredError);
+  });
+
+  it('rejects tokens without auth_time or amr', () => {
+    expect(run(undefined, ['otp']).error).toBeInstanceOf(StepUpRequiredError);
+    expect(run(now, undefined).error).toBeInstanceOf(StepUpRequiredError);
+  });
+});
+
+describe('requireStepUpWhen', () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = async (twoFactorEnabled: boolean, amr: AuthMethod[]) => {
+    jest.spyOn(User, 'findById').mockResolvedValue(new User({ id: 'user-1', twoFactorEnabled }));
+    const req = { user: { id: 'user-1', authTime: now, amr } } as unknown as Request;
+    const res = { setHeader: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+
+    await requireStepUpWhen((user) => user.twoFactorEnabled, 10)(req, res, next);
+    return next.mock.calls[0][0];
+  };
+
+  it('lets users the check does not apply to through without a second factor', async () => {
+    await expect(run(false, ['pwd'])).resolves.toBeUndefined();
+  });
+
+  it('requires a recent second factor from users it applies to', async () => {
+    await expect(run(true, ['pwd'])).resolves.toBeInstanceOf(StepUpRequiredError);
+    await expect(run(true, ['pwd', 'otp'])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '@/config';
+import { UnauthorizedError, StepUpRequiredError } from '@/utils/AppError';
+import { AuthMethod } from '../types/auth';
+import { User } from '../models/User';
+
+// Factors that count for step-up; a password, magic link or social sign-in alone does not
+const STEP_UP_METHODS: AuthMethod[] = ['otp', 'email', 'recovery'];
+
+// Require a second factor proved within the last maxAgeMinutes; use after authMiddleware
+export const requireStepUp = (maxAgeMinutes: number = config.security.stepUp.maxAgeMinutes) => {
+  const maxAgeSeconds = maxAgeMinutes * 60;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError('Access token is required'));
+      return;
+    }
+
+    const authAge = req.user.authTime ? Math.floor(Date.now() / 1000) - req.user.authTime : Infinity;
+    const hasSecondFactor = !!req.user.amr?.some((method) => STEP_UP_METHODS.includes(method));
+    if (authAge > maxAgeSeconds || !hasSecondFactor) {
+      // Tells clients to call /auth/step-up and retry (RFC 9470)
+      res.setHeader(
+        'WWW-Authenticate',
+        `Bearer error="insufficient_user_authentication", error_description="A recent second factor is required", max_age=${maxAgeSeconds}`
+      );
+      next(new StepUpRequiredError());
+      return;
+    }
+
+    next();
+  };
+};
+
+// requireStepUp, but only for users the check applies to (e.g. those with two-factor already on)
+export const requireStepUpWhen = (
+  applies: (user: User) => boolean,
+  maxAgeMinutes: number = config.security.stepUp.maxAgeMinutes
+) => {
+  const stepUp = requireStepUp(maxAgeMinutes);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      next(new UnauthorizedError('Access token is required'));
+      return;
+    }
+
+    try {
+      const user = await User.findById(req.user.id);
+      if (user && applies(user)) {
+        stepUp(req, res, next);
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,135 @@
+import { getDatabase } from '@/database/connection';
+import { RegistrationSession } from './RegistrationSession';
+import { AppError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+
+export type RegistrationEventType = 'started' | 'verified' | 'step_completed' | 'completed' | 'expired';
+export type RegistrationSource = 'email' | 'oauth';
+
+// Sessions reaching an event, and the median seconds since the previous funnel stage they reached
+export interface RegistrationEventSummary {
+  event: RegistrationEventType;
+  step: number;
+  sessions: number;
+  medianSeconds: number | null;
+}
+
+interface RegistrationEventSummaryRow {
+  event: RegistrationEventType;
+  step: number;
+  sessions: number;
+  median_seconds: number | null;
+}
+
+// Registration funnel events. Rows outlive their sessions so abandoned sign-ups can be reported on.
+export class RegistrationEvent {
+  // Record an event once per session; failures are logged and never block registration
+  static async record(session: RegistrationSession, event: RegistrationEventType, step: number = 0): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await db('registration_events')
+        .insert(this.toRow(session, event, step, new Date()))
+        .onConflict(['session_id', 'event', 'step'])
+        .ignore();
+    } catch (error) {
+      logger.error(`Failed to record registration event ${event}:`, error);
+    }
+  }
+
+  // Record expiry (and the step reached) for sessions being deleted
+  static async recordExpired(sessions: RegistrationSession[]): Promise<void> {
+    if (sessions.length === 0) return;
+
+    const db = getDatabase();
+
+    try {
+      await db('registration_events')
+        .insert(sessions.map((session) => this.toRow(session, 'expired', session.currentStep, session.expiresAt)))
+        .onConflict(['session_id', 'event', 'step'])
+        .ignore();
+    } catch (error) {
+      logger.error('Failed to record expired registration sessions:', error);
+    }
+  }
+
+  // Per-event counts and median time since the previous funnel stage, for sessions started in [from, to).
+  // stepOrder lists the step_completed steps in flow order, since step numbers don't follow the flow.
+  static async summarize(from: Date, to: Date, stepOrder: number[], source?: RegistrationSource): Promise<RegistrationEventSummary[]> {
+    const db = getDatabase();
+
+    try {
+      const { rows } = await db.raw<{ rows: RegistrationEventSummaryRow[] }>(`
+        WITH cohort AS (
+          SELECT session_id
+          FROM registration_events
+          WHERE event = 'started'
+            AND occurred_at >= :from
+            AND occurred_at < :to
+            ${source ? 'AND source = :source' : ''}
+        ),
+        stages AS (
+          SELECT
+            e.session_id,
+            e.event,
+            e.step,
+            e.occurred_at,
+            CASE e.event
+              WHEN 'started' THEN 0
+              WHEN 'verified' THEN 1
+              WHEN 'step_completed' THEN 1 + array_position(:stepOrder::int[], e.step)
+              WHEN 'completed' THEN 2 + cardinality(:stepOrder::int[])
+            END AS stage
+          FROM registration_events e
+          JOIN cohort c ON c.session_id = e.session_id
+        ),
+        timeline AS (
+          SELECT
+            session_id,
+            event,
+            step,
+            EXTRACT(EPOCH FROM occurred_at - LAG(occurred_at) OVER (
+              PARTITION BY session_id ORDER BY stage
+            )) AS seconds_since_previous_stage
+          FROM stages
+          WHERE stage IS NOT NULL
+        )
+        -- A stage finished before the one ahead of it (after going back) has no gap to measure
+        SELECT
+          event,
+          step,
+          COUNT(*)::int AS sessions,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds_since_previous_stage)
+            FILTER (WHERE seconds_since_previous_stage >= 0) AS median_seconds
+        FROM timeline
+        GROUP BY event, step
+        UNION ALL
+        SELECT event, step, COUNT(*)::int AS sessions, NULL AS median_seconds
+        FROM stages
+        WHERE event = 'expired'
+        GROUP BY event, step
+      `, { from, to, stepOrder, ...(source ? { source } : {}) });
+
+      return rows.map((row) => ({
+        event: row.event,
+        step: row.step,
+        sessions: row.sessions,
+        medianSeconds: row.median_seconds === null ? null : Math.round(Number(row.median_seconds))
+      }));
+    } catch (error) {
+      logger.error('Failed to summarize registration events:', error);
+      throw new AppError('Failed to load registration analytics', 500);
+    }
+  }
+
+  private static toRow(session: RegistrationSession, event: RegistrationEventType, step: number, occurredAt: Date): Record<string, any> {
+    return {
+      session_id: session.id,
+      event,
+      step,
+      source: session.oauthProvider ? 'oauth' : 'email',
+      business_type: session.stepData.step3?.businessType || null,
+      occurred_at: occurredAt
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { RegistrationSession } from './RegistrationSession';
+import { getRegistrationSessionStore } from '../stores';
+import { RegistrationStep } from '../types/auth';
+import { config } from '@/config';
+import { createFakeDatabase, FakeDatabase } from '@/test/fakeDatabase';
+
+let mockDb: FakeDatabase;
+
+jest.mock('@/database/connection', () => ({ getDatabase: () => mockDb }));
+
+const startSession = async (): Promise<RegistrationSession> =>
+  new RegistrationSession(await getRegistrationSessionStore().create({
+    email: 'owner@example.com',
+    sessionToken: crypto.randomUUID(),
+    stepData: {},
+    stepHistory: [],
+    currentStep: RegistrationStep.EMAIL_INPUT,
+    totalSteps: 5,
+    emailVerified: false,
+    verificationCodeAttempts: 0,
+    remindersSent: 0,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  }));
+
+describe('RegistrationSession verification codes', () => {
+  const maxAttempts = config.registration.verificationCodeMaxAttempts;
+  let session: RegistrationSession;
+
+  beforeEach(async () => {
+    mockDb = createFakeDatabase();
+    session = await startSession();
+  });
+
+  const wrongCode = (code: string) => (code === '000000' ? '000001' : '000000');
+
+  it('accepts the latest code once', async () => {
+    const code = (await session.createVerificationCode())!;
+
+    await expect(session.checkVerificationCode(code)).resolves.toBe(true);
+    await expect(session.checkVerificationCode(code)).resolves.toBe(false);
+  });
+
+  it('keeps counting wrong guesses across new codes', async () => {
+    const firstCode = (await session.createVerificationCode())!;
+    for (let attempt = 0; attempt < maxAttempts - 1; attempt++) {
+      await session.checkVerificationCode(wrongCode(firstCode));
+    }
+
+    const secondCode = (await session.createVerificationCode())!;
+    await expect(session.checkVerificationCode(wrongCode(secondCode))).resolves.toBe(false);
+
+    expect(mockDb.rows('registration_sessions')[0].verification_code_attempts).toBe(maxAttempts);
+    await expect(session.checkVerificationCode(secondCode)).resolves.toBe(false);
+  });
+
+  it('stops issuing codes once the attempts are used up, leaving the link to verify', async () => {
+    const code = (await session.createVerificationCode())!;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await session.checkVerificationCode(wrongCode(code));
+    }
+
+    expect(session.hasVerificationCodeAttemptsLeft()).toBe(false);
+    session.verificationToken = 'new-link-token';
+    await expect(session.createVerificationCode()).resolves.toBeNull();
+    expect(mockDb.rows('registration_sessions')[0].verification_token).toBe('new-link-token');
+  });
+});
+
+describe('RegistrationSession.createOAuthSession', () => {
+  const profile = { id: 'google-1', email: 'owner@example.com', name: 'Ada Owner', given_name: 'Ada', family_name: 'Owner', verified_email: true };
+
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('never hands a provider sign-up a session someone else started for the address', async () => {
+    const store = getRegistrationSessionStore();
+    const squatted = await startSession();
+    jest.spyOn(store, 'findByEmail').mockResolvedValue(await store.findByToken(squatted.sessionToken));
+
+    const session = await RegistrationSession.createOAuthSession('owner@example.com', 'google', profile);
+
+    expect(session.sessionToken).not.toBe(squatted.sessionToken);
+    expect(session.emailVerified).toBe(true);
+    await expect(RegistrationSession.findByToken(squatted.sessionToken)).resolves.toBeNull();
+  });
+});
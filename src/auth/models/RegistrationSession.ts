@@ -1,14 +1,19 @@
 import { IsEmail, IsString, IsBoolean, IsOptional, IsObject, IsUUID, IsEnum } from 'class-validator';
 import { getDatabase } from '@/database/connection';
+import { config } from '@/config';
+import { RegistrationEvent } from './RegistrationEvent';
+import { getRegistrationSessionStore, RegistrationSessionRecord } from '../stores';
 import { 
   RegistrationSession as IRegistrationSession, 
   RegistrationStep, 
   RegistrationStepData,
-  OAuthProvider,
-  GoogleProfile 
+  RegistrationStepEvent,
+  OAuthProfile
 } from '../types/auth';
 import crypto from 'crypto';
 
+const STEP_HISTORY_LIMIT = 50;
+
 export class RegistrationSession implements IRegistrationSession {
   @IsUUID()
   id!: string;
@@ -27,6 +32,9 @@ export class RegistrationSession implements IRegistrationSession {
 
   totalSteps: number = 5;
 
+  // What happened to each step, oldest first (capped)
+  stepHistory: RegistrationStepEvent[] = [];
+
   @IsBoolean()
   emailVerified: boolean = false;
 
@@ -34,9 +42,20 @@ export class RegistrationSession implements IRegistrationSession {
   @IsString()
   verificationToken?: string;
 
+  // Hash of the 6-digit code sent with the verification link
+  @IsOptional()
+  @IsString()
+  verificationCode?: string;
+
+  verificationCodeAttempts: number = 0;
+
   @IsOptional()
-  @IsEnum(OAuthProvider)
-  oauthProvider?: OAuthProvider;
+  verificationCodeExpiresAt?: Date;
+
+  // An OAuthProvider value or a custom OIDC provider name
+  @IsOptional()
+  @IsString()
+  oauthProvider?: string;
 
   @IsOptional()
   @IsString()
@@ -44,7 +63,21 @@ export class RegistrationSession implements IRegistrationSession {
 
   @IsOptional()
   @IsObject()
-  oauthData?: GoogleProfile;
+  oauthData?: OAuthProfile;
+
+  // Hash of the outstanding resume link token, if one was sent
+  @IsOptional()
+  @IsString()
+  resumeToken?: string;
+
+  @IsOptional()
+  resumeTokenExpiresAt?: Date;
+
+  // Idle reminders sent so far; only changed through claimReminder
+  remindersSent: number = 0;
+
+  @IsOptional()
+  lastReminderAt?: Date;
 
   expiresAt!: Date;
   createdAt!: Date;
@@ -55,12 +88,17 @@ export class RegistrationSession implements IRegistrationSession {
       Object.assign(this, data);
     }
     
-    // Set default expiration (2 hours)
+    // Set default expiration
     if (!this.expiresAt) {
-      this.expiresAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      this.expiresAt = RegistrationSession.idleExpiry();
     }
   }
 
+  // When a session touched now should expire
+  static idleExpiry(): Date {
+    return new Date(Date.now() + config.registration.sessionExpiryHours * 60 * 60 * 1000);
+  }
+
   // Generate session token
   static generateSessionToken(): string {
     return crypto.randomBytes(32).toString('hex');
@@ -73,39 +111,25 @@ export class RegistrationSession implements IRegistrationSession {
 
   // Create new registration session
   static async createSession(email: string, isOAuth: boolean = false): Promise<RegistrationSession> {
-    const db = getDatabase();
-    
     // Check if email already has an active session
-    await this.cleanupExpiredSessions();
     const existingSession = await this.findByEmail(email);
     if (existingSession && existingSession.expiresAt > new Date()) {
       return existingSession;
     }
 
-    const sessionData = {
-      email,
-      session_token: this.generateSessionToken(),
-      verification_token: this.generateVerificationToken(),
-      step_data: JSON.stringify({
-        step1: { email, isOAuth }
-      }),
-      current_step: isOAuth ? RegistrationStep.PERSONAL_INFO : RegistrationStep.EMAIL_INPUT,
-      email_verified: isOAuth, // OAuth emails are pre-verified
-      expires_at: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours
-      created_at: new Date(),
-      updated_at: new Date()
-    };
-
-    const [session] = await db('registration_sessions')
-      .insert(sessionData)
-      .returning('*');
-
-    return new RegistrationSession(RegistrationSession.parseSessionData(session));
+    return this.insertSession(email, isOAuth);
   }
 
   // Create OAuth session
-  static async createOAuthSession(email: string, provider: OAuthProvider, profile: GoogleProfile): Promise<RegistrationSession> {
-    const session = await this.createSession(email, true);
+  static async createOAuthSession(email: string, provider: string, profile: OAuthProfile): Promise<RegistrationSession> {
+    // Anyone can start a session for an address, so a provider sign-up never inherits one: the
+    // earlier session (and its token) is discarded instead of being marked verified
+    const existingSession = await this.findByEmail(email);
+    if (existingSession) {
+      await existingSession.delete();
+    }
+
+    const session = await this.insertSession(email, true);
     
     session.oauthProvider = provider;
     session.oauthId = profile.id;
@@ -122,53 +146,193 @@ export class RegistrationSession implements IRegistrationSession {
     return session;
   }
 
+  // A brand-new session with its own token
+  private static async insertSession(email: string, isOAuth: boolean): Promise<RegistrationSession> {
+    const session = await getRegistrationSessionStore().create({
+      email,
+      sessionToken: this.generateSessionToken(),
+      verificationToken: this.generateVerificationToken(),
+      stepData: {
+        step1: { email, isOAuth }
+      },
+      stepHistory: [],
+      currentStep: isOAuth ? RegistrationStep.PERSONAL_INFO : RegistrationStep.EMAIL_INPUT,
+      totalSteps: 5,
+      emailVerified: isOAuth, // OAuth emails are pre-verified
+      verificationCodeAttempts: 0,
+      remindersSent: 0,
+      expiresAt: this.idleExpiry()
+    });
+
+    return new RegistrationSession(session);
+  }
+
   // Find session by token
   static async findByToken(sessionToken: string): Promise<RegistrationSession | null> {
-    const db = getDatabase();
-    const session = await db('registration_sessions')
-      .where('session_token', sessionToken)
-      .first();
+    const record = await getRegistrationSessionStore().findByToken(sessionToken);
+    if (!record) return null;
 
-    if (!session) return null;
+    const session = new RegistrationSession(record);
     
     // Check if expired
-    if (new Date(session.expires_at) < new Date()) {
-      await this.deleteExpiredSession(session.id);
+    if (session.expiresAt < new Date()) {
+      await this.deleteExpiredSession(session);
       return null;
     }
 
-    return new RegistrationSession(RegistrationSession.parseSessionData(session));
+    return session;
   }
 
   // Find session by email
   static async findByEmail(email: string): Promise<RegistrationSession | null> {
-    const db = getDatabase();
-    const session = await db('registration_sessions')
-      .where('email', email)
-      .orderBy('created_at', 'desc')
-      .first();
+    const session = await getRegistrationSessionStore().findByEmail(email);
 
     if (!session) return null;
-    return new RegistrationSession(RegistrationSession.parseSessionData(session));
+    return new RegistrationSession(session);
+  }
+
+  // Note a step change in the history
+  recordStepEvent(step: RegistrationStep, action: RegistrationStepEvent['action']): void {
+    this.stepHistory = [...this.stepHistory, { step, action, at: new Date().toISOString() }].slice(-STEP_HISTORY_LIMIT);
   }
 
-  // Update step data
-  async updateStep(step: RegistrationStep, data: any): Promise<void> {
-    this.stepData[`step${step}` as keyof RegistrationStepData] = data;
-    this.currentStep = step;
-    this.updatedAt = new Date();
+  // Issue a fresh verification code, replacing any earlier one; only its hash is stored.
+  // Wrong guesses carry over, so asking for new codes doesn't buy more attempts: once they run
+  // out no code is issued (null) and only the emailed link can verify the address.
+  async createVerificationCode(): Promise<string | null> {
+    if (!this.hasVerificationCodeAttemptsLeft()) {
+      // Still saved, so a new verification token set by the caller takes effect
+      this.verificationCode = undefined;
+      this.verificationCodeExpiresAt = undefined;
+      await this.save();
+      return null;
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    this.verificationCode = RegistrationSession.hashVerificationCode(code);
+    this.verificationCodeExpiresAt = new Date(Date.now() + config.registration.verificationCodeExpiryMinutes * 60 * 1000);
     await this.save();
+
+    return code;
+  }
+
+  hasVerificationCodeAttemptsLeft(): boolean {
+    return this.verificationCodeAttempts < config.registration.verificationCodeMaxAttempts;
   }
 
-  // Move to next step
-  async nextStep(): Promise<void> {
-    if (this.currentStep < this.totalSteps) {
-      this.currentStep = (this.currentStep + 1) as RegistrationStep;
-      this.updatedAt = new Date();
+  // Check a verification code; a correct code is consumed and too many wrong guesses burn it
+  async checkVerificationCode(code: string): Promise<boolean> {
+    const store = getRegistrationSessionStore();
+
+    if (!this.verificationCode || !this.verificationCodeExpiresAt || this.verificationCodeExpiresAt < new Date() ||
+        !this.hasVerificationCodeAttemptsLeft()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.verificationCode, 'hex');
+    const actual = Buffer.from(RegistrationSession.hashVerificationCode(code), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      await store.incrementVerificationCodeAttempts(this.id);
+      this.verificationCodeAttempts++;
+      return false;
+    }
+
+    // Clearing the code only if it is unchanged keeps it single-use under concurrent requests
+    const cleared = await store.updateIf(
+      this.id,
+      { verificationCode: this.verificationCode },
+      { verificationCode: null, verificationCodeExpiresAt: null, updatedAt: new Date() }
+    );
+
+    this.verificationCode = undefined;
+    this.verificationCodeExpiresAt = undefined;
+    return cleared;
+  }
+
+  private static hashVerificationCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  // Find the live session a resume link points at, consuming the link
+  static async claimResumeToken(resumeToken: string): Promise<RegistrationSession | null> {
+    const hashedToken = crypto.createHash('sha256').update(resumeToken).digest('hex');
+    const session = await getRegistrationSessionStore().claimResumeToken(hashedToken);
+
+    if (!session) return null;
+    return new RegistrationSession(session);
+  }
+
+  // Issue a resume link token, replacing any earlier one; only its hash is stored
+  async createResumeToken(expiresInMinutes: number = config.registration.resumeLinkExpiryMinutes): Promise<string> {
+    const resumeToken = crypto.randomBytes(32).toString('hex');
+
+    this.resumeToken = crypto.createHash('sha256').update(resumeToken).digest('hex');
+    this.resumeTokenExpiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+    await this.save();
+
+    return resumeToken;
+  }
+
+  // Live, verified sessions idle since the cutoff that are still owed a reminder, longest idle first
+  static async findDueForReminder(idleSince: Date, maxReminders: number, limit: number): Promise<RegistrationSession[]> {
+    const sessions = await getRegistrationSessionStore().findIdle(idleSince, maxReminders, limit);
+    return sessions.map((session) => new RegistrationSession(session));
+  }
+
+  // Count a reminder against the session; false when another run already claimed this one
+  async claimReminder(): Promise<boolean> {
+    const now = new Date();
+
+    const claimed = await getRegistrationSessionStore().updateIf(
+      this.id,
+      { remindersSent: this.remindersSent },
+      { remindersSent: this.remindersSent + 1, lastReminderAt: now }
+    );
+
+    if (!claimed) return false;
+
+    this.remindersSent++;
+    this.lastReminderAt = now;
+    return true;
+  }
+
+  // Slide the expiry forward while the user is active, never past the max lifetime
+  async extendExpiry(): Promise<void> {
+    const expiresAt = this.nextIdleExpiry();
+
+    if (expiresAt > this.expiresAt) {
+      this.expiresAt = expiresAt;
       await this.save();
     }
   }
 
+  // After a successful step, in sliding-expiry mode; the caller saves the session
+  slideExpiry(): void {
+    if (!config.registration.slidingExpiry) return;
+
+    const expiresAt = this.nextIdleExpiry();
+    if (expiresAt > this.expiresAt) {
+      this.expiresAt = expiresAt;
+    }
+  }
+
+  // Expiry info for registration responses, so the UI can warn before the session runs out
+  toExpiryJSON(): { expiresAt: Date; secondsRemaining: number } {
+    return {
+      expiresAt: this.expiresAt,
+      secondsRemaining: Math.max(0, Math.floor((this.expiresAt.getTime() - Date.now()) / 1000))
+    };
+  }
+
+  // A full idle lifetime from now, capped at the max lifetime from creation
+  private nextIdleExpiry(): Date {
+    const createdAt = this.createdAt ? this.createdAt.getTime() : Date.now();
+    const maxExpiry = createdAt + config.registration.maxSessionLifetimeHours * 60 * 60 * 1000;
+
+    return new Date(Math.min(RegistrationSession.idleExpiry().getTime(), maxExpiry));
+  }
+
   // Generate shop URL from business name
   // static generateShopUrl(businessName: string): string {
   //   const baseUrl = businessName
@@ -198,24 +362,19 @@ export class RegistrationSession implements IRegistrationSession {
   }
 
   // Generate unique shop URL with counter
-  static async generateUniqueShopUrl(businessName: string): Promise<string> {
+  static async generateUniqueShopUrl(businessName: string, sessionId?: string): Promise<string> {
     const baseUrl = this.generateBaseShopUrl(businessName);
     
-    if (await this.isShopUrlAvailable(`${baseUrl}.celm.com`)) {
+    if (await this.isShopUrlAvailable(`${baseUrl}.celm.com`, sessionId)) {
       return `${baseUrl}.celm.com`;
     }
     
-    const db = getDatabase();
     let counter = 2;
     
     while (counter <= 999) {
       const candidateUrl = `${baseUrl}${counter}.celm.com`;
       
-      const existing = await db('users')
-        .where('shop_url', candidateUrl)
-        .first();
-        
-      if (!existing) {
+      if (await this.isShopUrlAvailable(candidateUrl, sessionId)) {
         return candidateUrl;
       }
       
@@ -236,19 +395,18 @@ export class RegistrationSession implements IRegistrationSession {
   }
 
   // Get suggested alternatives for a shop URL
-  static async getShopUrlSuggestions(businessName: string, count: number = 5): Promise<string[]> {
+  static async getShopUrlSuggestions(businessName: string, count: number = 5, sessionId?: string): Promise<string[]> {
     const baseUrl = this.generateBaseShopUrl(businessName);
     const suggestions: string[] = [];
-    const db = getDatabase();
     
     const originalUrl = `${baseUrl}.celm.com`;
-    if (await this.isShopUrlAvailable(originalUrl)) {
+    if (await this.isShopUrlAvailable(originalUrl, sessionId)) {
       suggestions.push(originalUrl);
     }
     
     for (let i = 2; suggestions.length < count && i <= 20; i++) {
       const candidate = `${baseUrl}${i}.celm.com`;
-      if (await this.isShopUrlAvailable(candidate)) {
+      if (await this.isShopUrlAvailable(candidate, sessionId)) {
         suggestions.push(candidate);
       }
     }
@@ -263,7 +421,7 @@ export class RegistrationSession implements IRegistrationSession {
     
     for (const variation of variations) {
       if (suggestions.length >= count) break;
-      if (await this.isShopUrlAvailable(variation)) {
+      if (await this.isShopUrlAvailable(variation, sessionId)) {
         suggestions.push(variation);
       }
     }
@@ -271,121 +429,112 @@ export class RegistrationSession implements IRegistrationSession {
     return suggestions.slice(0, count);
   }
 
-  // Check if shop URL is available
-  static async isShopUrlAvailable(shopUrl: string): Promise<boolean> {
+  // Check if shop URL is available: not owned by a user or reserved by another registration
+  static async isShopUrlAvailable(shopUrl: string, sessionId?: string): Promise<boolean> {
     const db = getDatabase();
     const existing = await db('users')
       .where('shop_url', shopUrl)
       .first();
-    return !existing;
+    if (existing) return false;
+
+    return !await getRegistrationSessionStore().isShopUrlReserved(shopUrl, sessionId);
+  }
+
+  // Hold a shop URL for this registration, releasing any URL it held before; null when it's taken
+  async reserveShopUrl(shopUrl: string): Promise<Date | null> {
+    const db = getDatabase();
+    const store = getRegistrationSessionStore();
+
+    const owned = await db('users').where('shop_url', shopUrl).first();
+    if (owned) return null;
+
+    const until = new Date(Math.min(Date.now() + config.registration.shopUrlReservationMinutes * 60 * 1000, this.expiresAt.getTime()));
+    if (!await store.reserveShopUrl(shopUrl, this.id, until)) {
+      return null;
+    }
+
+    const previous = this.stepData.step4?.shopUrl;
+    if (previous && previous !== shopUrl) {
+      await store.releaseShopUrl(previous, this.id);
+    }
+
+    return until;
   }
 
   // Save session
   async save(): Promise<RegistrationSession> {
-    const db = getDatabase();
-    
-    const sessionData = {
-      email: this.email,
-      session_token: this.sessionToken,
-      step_data: JSON.stringify(this.stepData),
-      current_step: this.currentStep,
-      total_steps: this.totalSteps,
-      email_verified: this.emailVerified,
-      verification_token: this.verificationToken,
-      oauth_provider: this.oauthProvider,
-      oauth_id: this.oauthId,
-      oauth_data: this.oauthData ? JSON.stringify(this.oauthData) : null,
-      expires_at: this.expiresAt,
-      updated_at: new Date()
-    };
+    const store = getRegistrationSessionStore();
 
     if (this.id) {
-      const [updated] = await db('registration_sessions')
-        .where('id', this.id)
-        .update(sessionData)
-        .returning('*');
-      return new RegistrationSession(RegistrationSession.parseSessionData(updated));
-    } else {
-      const [created] = await db('registration_sessions')
-        .insert({ ...sessionData, created_at: new Date() })
-        .returning('*');
-      return new RegistrationSession(RegistrationSession.parseSessionData(created));
+      return new RegistrationSession(await store.save(this.toRecord()));
     }
+
+    const { id, createdAt, updatedAt, ...session } = this.toRecord();
+    return new RegistrationSession(await store.create(session));
   }
 
   // Delete session
   async delete(): Promise<void> {
-    const db = getDatabase();
-    await db('registration_sessions').where('id', this.id).del();
+    await getRegistrationSessionStore().delete(this.id);
   }
 
-  // Cleanup expired sessions
-  static async cleanupExpiredSessions(): Promise<void> {
-    const db = getDatabase();
-    await db('registration_sessions')
-      .where('expires_at', '<', new Date())
-      .del();
+  // Cleanup expired sessions, keeping a funnel record of where they stopped; returns how many went
+  static async cleanupExpiredSessions(): Promise<number> {
+    const expired = await getRegistrationSessionStore().removeExpired();
+    await RegistrationEvent.recordExpired(expired.map((session) => new RegistrationSession(session)));
+    return expired.length;
   }
 
   // Delete specific expired session
-  static async deleteExpiredSession(id: string): Promise<void> {
-    const db = getDatabase();
-    await db('registration_sessions').where('id', id).del();
+  static async deleteExpiredSession(session: RegistrationSession): Promise<void> {
+    await RegistrationEvent.recordExpired([session]);
+    await getRegistrationSessionStore().delete(session.id);
   }
 
-  // Parse database session data
-  private static parseSessionData(session: any): any {
+  // Everything the session store persists
+  private toRecord(): RegistrationSessionRecord {
     return {
-      id: session.id,
-      email: session.email,
-      sessionToken: session.session_token,
-      stepData: session.step_data ? JSON.parse(session.step_data) : {},
-      currentStep: session.current_step,
-      totalSteps: session.total_steps,
-      emailVerified: session.email_verified,
-      verificationToken: session.verification_token,
-      oauthProvider: session.oauth_provider,
-      oauthId: session.oauth_id,
-      oauthData: session.oauth_data ? JSON.parse(session.oauth_data) : null,
-      expiresAt: new Date(session.expires_at),
-      createdAt: new Date(session.created_at),
-      updatedAt: new Date(session.updated_at)
+      id: this.id,
+      email: this.email,
+      sessionToken: this.sessionToken,
+      stepData: this.stepData,
+      stepHistory: this.stepHistory,
+      currentStep: this.currentStep,
+      totalSteps: this.totalSteps,
+      emailVerified: this.emailVerified,
+      verificationToken: this.verificationToken,
+      verificationCode: this.verificationCode,
+      verificationCodeAttempts: this.verificationCodeAttempts,
+      verificationCodeExpiresAt: this.verificationCodeExpiresAt,
+      oauthProvider: this.oauthProvider,
+      oauthId: this.oauthId,
+      oauthData: this.oauthData,
+      resumeToken: this.resumeToken,
+      resumeTokenExpiresAt: this.resumeTokenExpiresAt,
+      remindersSent: this.remindersSent,
+      lastReminderAt: this.lastReminderAt,
+      expiresAt: this.expiresAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
     };
   }
 
-  // Validate step data
-  isStepValid(step: RegistrationStep): boolean {
-    const data = this.stepData[`step${step}` as keyof RegistrationStepData];
-    if (!data) return false;
-
-    switch (step) {
-      case RegistrationStep.EMAIL_INPUT:
-        return !!(data as any).email;
-      case RegistrationStep.PERSONAL_INFO:
-        const personalData = data as any;
-        return !!(personalData.firstName && personalData.lastName && 
-                 (personalData.password || this.oauthProvider));
-      case RegistrationStep.BUSINESS_TYPE:
-        return !!(data as any).businessType;
-      case RegistrationStep.SHOP_DETAILS:
-        const shopData = data as any;
-        return !!(shopData.businessName && shopData.businessDescription && shopData.shopUrl);
-      case RegistrationStep.LOCATION:
-        const locationData = data as any;
-        return !!(locationData.country && locationData.state && 
-                 locationData.localGovernment && locationData.address);
-      default:
-        return false;
+  // Progress a client can show when picking the session back up (never the password)
+  toProgressJSON(): any {
+    const stepData: RegistrationStepData = { ...this.stepData };
+    if (stepData.step2) {
+      const { password, ...personalInfo } = stepData.step2;
+      stepData.step2 = personalInfo;
     }
-  }
 
-  // Check if all steps are complete
-  isComplete(): boolean {
-    for (let step = 1; step <= this.totalSteps; step++) {
-      if (!this.isStepValid(step as RegistrationStep)) {
-        return false;
-      }
-    }
-    return true;
+    return {
+      email: this.email,
+      currentStep: this.currentStep,
+      totalSteps: this.totalSteps,
+      emailVerified: this.emailVerified,
+      oauthProvider: this.oauthProvider,
+      stepData,
+      ...this.toExpiryJSON()
+    };
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,10 @@
 import { IsEmail, IsString, IsBoolean, IsOptional, IsEnum, IsUUID } from 'class-validator';
 import bcrypt from 'bcryptjs';
+import { Knex } from 'knex';
 import { getDatabase } from '@/database/connection';
 import { config } from '@/config';
-import { BusinessTypeOption } from '../types/auth';
-import { AppError } from '@/utils/AppError';
+import { BusinessTypeOption, TwoFactorMethod, ServiceDetailsStepData, ProductDetailsStepData } from '../types/auth';
+import { AppError, ConflictError } from '@/utils/AppError';
 import { logger } from '@/utils/logger';
 
 export enum UserStatus {
@@ -12,6 +13,12 @@ export enum UserStatus {
   SUSPENDED = 'suspended'
 }
 
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin',
+  SUPER_ADMIN = 'super_admin'
+}
+
 export class User {
   @IsUUID()
   id!: string;
@@ -53,13 +60,20 @@ export class User {
     address: string;
   };
 
+  // Services offered and availability (service businesses)
   @IsOptional()
-  @IsString()
-  oauthProvider?: string;
+  serviceDetails?: ServiceDetailsStepData;
 
+  // Product categories and fulfilment (product businesses)
   @IsOptional()
-  @IsString()
-  oauthId?: string;
+  productDetails?: ProductDetailsStepData;
+
+  // Changed directly in the database, never through save()
+  @IsEnum(UserRole)
+  role: UserRole = UserRole.USER;
+
+  // Providers from user_identities, e.g. ['google']
+  linkedProviders: string[] = [];
 
   @IsOptional()
   oauthProfile?: any;
@@ -73,6 +87,34 @@ export class User {
   @IsBoolean()
   onboardingCompleted: boolean = false;
 
+  // Failed login tracking (managed by recordFailedLogin/resetFailedLogins, not save)
+  failedLoginAttempts: number = 0;
+
+  @IsOptional()
+  lastFailedLoginAt?: Date;
+
+  @IsOptional()
+  lockedUntil?: Date;
+
+  // Two-factor authentication (secrets are encrypted at rest)
+  @IsBoolean()
+  twoFactorEnabled: boolean = false;
+
+  @IsOptional()
+  @IsEnum(TwoFactorMethod)
+  twoFactorMethod?: TwoFactorMethod;
+
+  @IsOptional()
+  @IsString()
+  twoFactorSecret?: string;
+
+  @IsOptional()
+  @IsString()
+  twoFactorPendingSecret?: string;
+
+  @IsOptional()
+  twoFactorLastUsedStep?: number;
+
   // Password reset fields
   @IsOptional()
   @IsString()
@@ -108,7 +150,7 @@ export class User {
     const db = getDatabase();
     
     try {
-      const userData = await db('users').where('id', id).first();
+      const userData = await this.selectWithLinkedProviders(db).where('id', id).first();
       if (!userData) return null;
       
       return new User(this.parseUserData(userData));
@@ -123,7 +165,7 @@ export class User {
     const db = getDatabase();
     
     try {
-      const userData = await db('users').where('email', email).first();
+      const userData = await this.selectWithLinkedProviders(db).where('email', email).first();
       if (!userData) return null;
       
       return new User(this.parseUserData(userData));
@@ -138,7 +180,7 @@ export class User {
     const db = getDatabase();
     
     try {
-      const userData = await db('users').where('shop_url', shopUrl).first();
+      const userData = await this.selectWithLinkedProviders(db).where('shop_url', shopUrl).first();
       if (!userData) return null;
       
       return new User(this.parseUserData(userData));
@@ -153,7 +195,7 @@ export class User {
     const db = getDatabase();
     
     try {
-      const userData = await db('users')
+      const userData = await this.selectWithLinkedProviders(db)
         .where('password_reset_token', hashedToken)
         .where('password_reset_expires', '>', new Date())
         .first();
@@ -186,8 +228,8 @@ export class User {
         business_description: this.businessDescription,
         business_type: this.businessType,
         location: this.location ? JSON.stringify(this.location) : null,
-        oauth_provider: this.oauthProvider,
-        oauth_id: this.oauthId,
+        service_details: this.serviceDetails ? JSON.stringify(this.serviceDetails) : null,
+        product_details: this.productDetails ? JSON.stringify(this.productDetails) : null,
         oauth_profile: this.oauthProfile ? JSON.stringify(this.oauthProfile) : null,
         is_active: this.isActive,
         email_verified: this.emailVerified,
@@ -236,8 +278,8 @@ export class User {
         business_description: this.businessDescription,
         business_type: this.businessType,
         location: this.location ? JSON.stringify(this.location) : null,
-        oauth_provider: this.oauthProvider,
-        oauth_id: this.oauthId,
+        service_details: this.serviceDetails ? JSON.stringify(this.serviceDetails) : null,
+        product_details: this.productDetails ? JSON.stringify(this.productDetails) : null,
         oauth_profile: this.oauthProfile ? JSON.stringify(this.oauthProfile) : null,
         is_active: this.isActive,
         email_verified: this.emailVerified,
@@ -252,7 +294,11 @@ export class User {
       this.updatedAt = new Date(created.updated_at);
 
       return this;
-    } catch (error) {
+    } catch (error: any) {
+      // Backstop for a shop URL taken outside the reservation flow
+      if (error.code === '23505' && error.constraint === 'users_shop_url_unique') {
+        throw new ConflictError('Shop URL is already taken');
+      }
       logger.error('Failed to save user with transaction:', error);
       throw new AppError('Failed to save user', 500);
     }
@@ -279,6 +325,280 @@ export class User {
     }
   }
 
+  // Update password (hashes the plain password before persisting)
+  async updatePassword(newPassword: string): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      const hashedPassword = await bcrypt.hash(newPassword, config.security.bcryptRounds);
+
+      await db('users')
+        .where('id', this.id)
+        .update({
+          password: hashedPassword,
+          updated_at: new Date()
+        });
+
+      this.password = hashedPassword;
+    } catch (error) {
+      logger.error('Failed to update password:', error);
+      throw new AppError('Failed to update password', 500);
+    }
+  }
+
+  // Change the sign-in email address of a verified account
+  async updateEmail(newEmail: string): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          email: newEmail,
+          email_verified: true,
+          email_verified_at: new Date(),
+          updated_at: new Date()
+        });
+
+      this.email = newEmail;
+      this.emailVerified = true;
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'users_email_unique') {
+        throw new ConflictError('An account with this email already exists');
+      }
+      logger.error('Failed to update email:', error);
+      throw new AppError('Failed to update email', 500);
+    }
+  }
+
+  // Move the shop to a new URL
+  async updateShopUrl(shopUrl: string): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          shop_url: shopUrl,
+          updated_at: new Date()
+        });
+
+      this.shopUrl = shopUrl;
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'users_shop_url_unique') {
+        throw new ConflictError('Shop URL is already taken');
+      }
+      logger.error('Failed to update shop URL:', error);
+      throw new AppError('Failed to update shop URL', 500);
+    }
+  }
+
+  // Activate or deactivate the account
+  async updateActiveStatus(isActive: boolean): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          is_active: isActive,
+          updated_at: new Date()
+        });
+
+      this.isActive = isActive;
+    } catch (error) {
+      logger.error('Failed to update active status:', error);
+      throw new AppError('Failed to update active status', 500);
+    }
+  }
+
+  // Record a failed login attempt and return the new attempt count
+  async recordFailedLogin(): Promise<number> {
+    const db = getDatabase();
+    
+    try {
+      const now = new Date();
+      const [updated] = await db('users')
+        .where('id', this.id)
+        .update({
+          failed_login_attempts: db.raw('COALESCE(failed_login_attempts, 0) + 1'),
+          last_failed_login_at: now
+        })
+        .returning(['failed_login_attempts']);
+
+      this.failedLoginAttempts = updated.failed_login_attempts;
+      this.lastFailedLoginAt = now;
+      return this.failedLoginAttempts;
+    } catch (error) {
+      logger.error('Failed to record failed login:', error);
+      throw new AppError('Failed to record failed login', 500);
+    }
+  }
+
+  // Lock the account until the given time
+  async lockUntil(lockedUntil: Date): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({ locked_until: lockedUntil });
+
+      this.lockedUntil = lockedUntil;
+    } catch (error) {
+      logger.error('Failed to lock account:', error);
+      throw new AppError('Failed to lock account', 500);
+    }
+  }
+
+  // Clear failed login counters and any lock
+  async resetFailedLogins(): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          failed_login_attempts: 0,
+          last_failed_login_at: null,
+          locked_until: null
+        });
+
+      this.failedLoginAttempts = 0;
+      this.lastFailedLoginAt = undefined;
+      this.lockedUntil = undefined;
+    } catch (error) {
+      logger.error('Failed to reset failed logins:', error);
+      throw new AppError('Failed to reset failed logins', 500);
+    }
+  }
+
+  // Store an unconfirmed TOTP secret during enrollment
+  async setPendingTwoFactorSecret(encryptedSecret: string): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          two_factor_pending_secret: encryptedSecret,
+          updated_at: new Date()
+        });
+
+      this.twoFactorPendingSecret = encryptedSecret;
+    } catch (error) {
+      logger.error('Failed to store pending two-factor secret:', error);
+      throw new AppError('Failed to store two-factor secret', 500);
+    }
+  }
+
+  // Promote the pending TOTP secret and turn two-factor on
+  async enableTwoFactor(lastUsedStep: number): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          two_factor_enabled: true,
+          two_factor_method: TwoFactorMethod.TOTP,
+          two_factor_secret: this.twoFactorPendingSecret,
+          two_factor_pending_secret: null,
+          two_factor_last_used_step: lastUsedStep,
+          two_factor_enabled_at: new Date(),
+          updated_at: new Date()
+        });
+
+      this.twoFactorEnabled = true;
+      this.twoFactorMethod = TwoFactorMethod.TOTP;
+      this.twoFactorSecret = this.twoFactorPendingSecret;
+      this.twoFactorPendingSecret = undefined;
+      this.twoFactorLastUsedStep = lastUsedStep;
+    } catch (error) {
+      logger.error('Failed to enable two-factor authentication:', error);
+      throw new AppError('Failed to enable two-factor authentication', 500);
+    }
+  }
+
+  // Turn on email codes as the second factor
+  async enableEmailTwoFactor(): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          two_factor_enabled: true,
+          two_factor_method: TwoFactorMethod.EMAIL,
+          two_factor_secret: null,
+          two_factor_pending_secret: null,
+          two_factor_last_used_step: null,
+          two_factor_enabled_at: new Date(),
+          updated_at: new Date()
+        });
+
+      this.twoFactorEnabled = true;
+      this.twoFactorMethod = TwoFactorMethod.EMAIL;
+      this.twoFactorSecret = undefined;
+      this.twoFactorPendingSecret = undefined;
+      this.twoFactorLastUsedStep = undefined;
+    } catch (error) {
+      logger.error('Failed to enable email two-factor authentication:', error);
+      throw new AppError('Failed to enable two-factor authentication', 500);
+    }
+  }
+
+  // Turn two-factor off and forget the secret
+  async disableTwoFactor(): Promise<void> {
+    const db = getDatabase();
+    
+    try {
+      await db('users')
+        .where('id', this.id)
+        .update({
+          two_factor_enabled: false,
+          two_factor_method: null,
+          two_factor_secret: null,
+          two_factor_pending_secret: null,
+          two_factor_last_used_step: null,
+          two_factor_enabled_at: null,
+          updated_at: new Date()
+        });
+
+      this.twoFactorEnabled = false;
+      this.twoFactorMethod = undefined;
+      this.twoFactorSecret = undefined;
+      this.twoFactorPendingSecret = undefined;
+      this.twoFactorLastUsedStep = undefined;
+    } catch (error) {
+      logger.error('Failed to disable two-factor authentication:', error);
+      throw new AppError('Failed to disable two-factor authentication', 500);
+    }
+  }
+
+  // Remember the last accepted TOTP step so a code cannot be replayed;
+  // returns false when a newer or equal step was already used
+  async recordTwoFactorStep(step: number): Promise<boolean> {
+    const db = getDatabase();
+    
+    try {
+      const updated = await db('users')
+        .where('id', this.id)
+        .where((query) => {
+          query.whereNull('two_factor_last_used_step').orWhere('two_factor_last_used_step', '<', step);
+        })
+        .update({ two_factor_last_used_step: step });
+
+      if (updated) {
+        this.twoFactorLastUsedStep = step;
+      }
+      return updated > 0;
+    } catch (error) {
+      logger.error('Failed to record two-factor step:', error);
+      throw new AppError('Failed to verify two-factor code', 500);
+    }
+  }
+
   // Clear password reset token
   async clearPasswordResetToken(): Promise<void> {
     const db = getDatabase();
@@ -300,6 +620,16 @@ export class User {
     }
   }
 
+  // Users query that also collects linked sign-in providers
+  private static selectWithLinkedProviders(db: Knex): Knex.QueryBuilder {
+    return db('users').select(
+      'users.*',
+      db.raw(`COALESCE((
+        SELECT json_agg(provider ORDER BY created_at) FROM user_identities WHERE user_identities.user_id = users.id
+      ), '[]'::json) AS linked_providers`)
+    );
+  }
+
   // Parse database user data
   private static parseUserData(userData: any): any {
     return {
@@ -312,23 +642,51 @@ export class User {
       businessName: userData.business_name,
       businessDescription: userData.business_description,
       businessType: userData.business_type,
-      location: userData.location ? JSON.parse(userData.location) : null,
-      oauthProvider: userData.oauth_provider,
-      oauthId: userData.oauth_id,
-      oauthProfile: userData.oauth_profile ? JSON.parse(userData.oauth_profile) : null,
+      location: userData.location ? this.parseJson(userData.location) : null,
+      serviceDetails: userData.service_details ? this.parseJson(userData.service_details) : undefined,
+      productDetails: userData.product_details ? this.parseJson(userData.product_details) : undefined,
+      linkedProviders: userData.linked_providers || [],
+      role: userData.role || UserRole.USER,
+      oauthProfile: userData.oauth_profile ? this.parseJson(userData.oauth_profile) : null,
       isActive: userData.is_active,
       emailVerified: userData.email_verified,
       onboardingCompleted: userData.onboarding_completed,
       passwordResetToken: userData.password_reset_token,
       passwordResetExpires: userData.password_reset_expires ? new Date(userData.password_reset_expires) : null,
+      failedLoginAttempts: userData.failed_login_attempts || 0,
+      lastFailedLoginAt: userData.last_failed_login_at ? new Date(userData.last_failed_login_at) : undefined,
+      lockedUntil: userData.locked_until ? new Date(userData.locked_until) : undefined,
+      twoFactorEnabled: !!userData.two_factor_enabled,
+      twoFactorMethod: userData.two_factor_method || undefined,
+      twoFactorSecret: userData.two_factor_secret || undefined,
+      twoFactorPendingSecret: userData.two_factor_pending_secret || undefined,
+      twoFactorLastUsedStep: userData.two_factor_last_used_step ? Number(userData.two_factor_last_used_step) : undefined,
       createdAt: new Date(userData.created_at),
       updatedAt: new Date(userData.updated_at)
     };
   }
 
+  // pg hands json columns back parsed, but tolerate raw JSON text too
+  private static parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
   // Convert to safe JSON (without sensitive data)
   toSafeJSON(): any {
-    const { password, passwordResetToken, passwordResetExpires, oauthProfile, ...safeUser } = this;
+    const {
+      password,
+      passwordResetToken,
+      passwordResetExpires,
+      oauthProfile,
+      twoFactorSecret,
+      twoFactorPendingSecret,
+      twoFactorLastUsedStep,
+      // Lock state is only for admins, through getLockState
+      failedLoginAttempts,
+      lastFailedLoginAt,
+      lockedUntil,
+      ...safeUser
+    } = this;
     return safeUser;
   }
 
@@ -337,6 +695,26 @@ export class User {
     return `${this.firstName} ${this.lastName}`.trim();
   }
 
+  // Check if the account is temporarily locked
+  isLocked(): boolean {
+    return !!this.lockedUntil && this.lockedUntil > new Date();
+  }
+
+  // Lock state for admin tooling and support
+  getLockState(): { isLocked: boolean; lockedUntil: Date | null; failedLoginAttempts: number; lastFailedLoginAt: Date | null } {
+    return {
+      isLocked: this.isLocked(),
+      lockedUntil: this.isLocked() ? this.lockedUntil! : null,
+      failedLoginAttempts: this.failedLoginAttempts,
+      lastFailedLoginAt: this.lastFailedLoginAt || null
+    };
+  }
+
+  // OAuth-only accounts have never set a password
+  hasPassword(): boolean {
+    return !!this.password;
+  }
+
   // Check if user has completed onboarding
   hasCompletedOnboarding(): boolean {
     return !!(this.shopUrl && this.businessName && this.businessType && this.location && this.onboardingCompleted);
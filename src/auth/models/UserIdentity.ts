@@ -0,0 +1,146 @@
+import { IsString, IsOptional, IsUUID } from 'class-validator';
+import { Knex } from 'knex';
+import { getDatabase } from '@/database/connection';
+import { AppError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+
+// An external sign-in account (Google, ...) linked to a user
+export class UserIdentity {
+  @IsUUID()
+  id!: string;
+
+  @IsUUID()
+  userId!: string;
+
+  @IsString()
+  provider!: string;
+
+  @IsString()
+  providerUserId!: string;
+
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @IsOptional()
+  lastUsedAt?: Date;
+
+  createdAt!: Date;
+
+  constructor(data?: Partial<UserIdentity>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+
+  // Find the identity for a provider account
+  static async findByProvider(provider: string, providerUserId: string): Promise<UserIdentity | null> {
+    const db = getDatabase();
+
+    try {
+      const identityData = await db('user_identities')
+        .where('provider', provider)
+        .where('provider_user_id', providerUserId)
+        .first();
+      if (!identityData) return null;
+
+      return new UserIdentity(this.parseIdentityData(identityData));
+    } catch (error) {
+      logger.error('Failed to find identity by provider:', error);
+      return null;
+    }
+  }
+
+  // All identities linked to a user
+  static async findByUserId(userId: string): Promise<UserIdentity[]> {
+    const db = getDatabase();
+
+    try {
+      const rows = await db('user_identities')
+        .where('user_id', userId)
+        .orderBy('created_at', 'asc');
+
+      return rows.map((row: any) => new UserIdentity(this.parseIdentityData(row)));
+    } catch (error) {
+      logger.error('Failed to find identities for user:', error);
+      throw new AppError('Failed to load linked accounts', 500);
+    }
+  }
+
+  // Link a provider account to a user (optionally inside a transaction)
+  static async create(
+    data: { userId: string; provider: string; providerUserId: string; email?: string },
+    trx?: Knex.Transaction
+  ): Promise<UserIdentity> {
+    const db = trx || getDatabase();
+
+    try {
+      const [created] = await db('user_identities')
+        .insert({
+          user_id: data.userId,
+          provider: data.provider,
+          provider_user_id: data.providerUserId,
+          email: data.email || null,
+          created_at: new Date()
+        })
+        .returning('*');
+
+      return new UserIdentity(this.parseIdentityData(created));
+    } catch (error) {
+      logger.error('Failed to create identity:', error);
+      throw new AppError('Failed to link account', 500);
+    }
+  }
+
+  // Unlink a provider from a user; returns false when it was not linked
+  static async deleteForUser(userId: string, provider: string): Promise<boolean> {
+    const db = getDatabase();
+
+    try {
+      const deleted = await db('user_identities')
+        .where('user_id', userId)
+        .where('provider', provider)
+        .del();
+
+      return deleted > 0;
+    } catch (error) {
+      logger.error('Failed to delete identity:', error);
+      throw new AppError('Failed to unlink account', 500);
+    }
+  }
+
+  // Record a sign-in through this identity
+  async touch(): Promise<void> {
+    const db = getDatabase();
+
+    try {
+      await db('user_identities')
+        .where('id', this.id)
+        .update({ last_used_at: new Date() });
+
+      this.lastUsedAt = new Date();
+    } catch (error) {
+      // Bookkeeping only; never block a sign-in over it
+      logger.error('Failed to update identity last used time:', error);
+    }
+  }
+
+  // Parse database identity data
+  private static parseIdentityData(identityData: any): Partial<UserIdentity> {
+    return {
+      id: identityData.id,
+      userId: identityData.user_id,
+      provider: identityData.provider,
+      providerUserId: identityData.provider_user_id,
+      email: identityData.email || undefined,
+      lastUsedAt: identityData.last_used_at ? new Date(identityData.last_used_at) : undefined,
+      createdAt: new Date(identityData.created_at)
+    };
+  }
+
+  // Convert to safe JSON (provider account id stays internal)
+  toSafeJSON(): any {
+    const { providerUserId, userId, ...safeIdentity } = this;
+    return safeIdentity;
+  }
+}
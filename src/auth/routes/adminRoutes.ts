@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { requireRole } from '../middleware/roleMiddleware';
+import { UserRole } from '../models/User';
+
+const router = Router();
+const adminController = new AdminController();
+
+// Every admin route needs an admin user
+router.use(authMiddleware, requireRole(UserRole.ADMIN, UserRole.SUPER_ADMIN));
+
+// Registration funnel analytics
+router.get('/registration/funnel', adminController.getRegistrationFunnel);
+
+// Account lockout support
+router.get('/users/:id/lock', adminController.getUserLockState);
+router.post('/users/:id/unlock', adminController.unlockUser);
+
+export { router as adminRoutes };
@@ -1,29 +1,195 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
+import { TwoFactorController } from '../controllers/TwoFactorController';
+import { OAuthController } from '../controllers/OAuthController';
 import { authMiddleware } from '../middleware/authMiddleware';
+import { requireStepUp, requireStepUpWhen } from '../middleware/stepUpMiddleware';
 import rateLimit from 'express-rate-limit';
+import slowDown from 'express-slow-down';
 
 const router = Router();
 const authController = new AuthController();
+const twoFactorController = new TwoFactorController();
+const oauthController = new OAuthController();
 
-// Rate limiting for auth endpoints
+// Rate limiting for auth endpoints (per IP; generous enough for shared NATs)
 const authRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000,
-  max: 5,
+  max: 20,
   message: 'Too many authentication attempts, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
 });
 
+// Progressive delays per account, so distributed guessing on one email slows down
+const loginSlowDown = slowDown({
+  windowMs: 15 * 60 * 1000,
+  delayAfter: 3,
+  delayMs: (used) => (used - 3) * 500,
+  maxDelayMs: 10 * 1000,
+  skipSuccessfulRequests: true,
+  keyGenerator: (req) => String(req.body?.email || req.ip).toLowerCase(),
+});
+
+// Rate limiting for password recovery endpoints
+const forgotPasswordRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  message: 'Too many password reset requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const validateResetTokenRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: 'Too many reset token checks, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const resetPasswordRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: 'Too many password reset attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Password changes per signed-in user, counted apart from reset attempts
+const changePasswordRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: 'Too many password change attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => `change-password:${req.user?.id || req.ip}`,
+});
+
+const confirmEmailChangeRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many email confirmation attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const unlockRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: 'Too many unlock attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Magic links: per IP, and per email so one inbox can't be flooded from many IPs
+const magicLinkRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: 'Too many sign-in link requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const magicLinkEmailRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  message: 'Too many sign-in link requests for this email, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => `magic-link:${String(req.body?.email || req.ip).toLowerCase()}`,
+});
+
+const consumeMagicLinkRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many sign-in attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const twoFactorRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many two-factor attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Login with shop URL and password
-router.post('/login', authRateLimit, authController.login);
+router.post('/login', authRateLimit, loginSlowDown, authController.login);
+
+// Sign in with Google (existing, linked accounts only)
+router.post('/google', authRateLimit, authController.googleLogin);
+
+// Sign in with any configured OIDC provider (Microsoft, Apple, custom IdPs)
+router.get('/providers', authController.getProviders);
+router.post('/oidc/:provider', authRateLimit, authController.oidcLogin);
+
+// Server-side authorization code flow with PKCE (redirect based)
+router.get('/oauth/:provider/start', authRateLimit, oauthController.start);
+router.get('/oauth/:provider/callback', oauthController.callback);
+router.post('/oauth/:provider/callback', oauthController.callback);
+router.post('/oauth/exchange', authRateLimit, oauthController.exchange);
+
+// Passwordless sign-in by email link
+router.post('/magic-link', magicLinkRateLimit, magicLinkEmailRateLimit, authController.requestMagicLink);
+router.post('/magic-link/consume', consumeMagicLinkRateLimit, authController.consumeMagicLink);
+
+// Second login phase for accounts with two-factor enabled
+router.post('/2fa/login', twoFactorRateLimit, twoFactorController.login);
+router.post('/2fa/login/resend', twoFactorRateLimit, twoFactorController.resendLoginCode);
+
+// Two-factor enrollment (replacing an enabled factor needs a recent step-up)
+router.post('/2fa/setup', authMiddleware, twoFactorRateLimit, requireStepUpWhen((user) => user.twoFactorEnabled), twoFactorController.setup);
+router.post('/2fa/verify', authMiddleware, twoFactorRateLimit, twoFactorController.verify);
+router.post('/2fa/email/setup', authMiddleware, twoFactorRateLimit, requireStepUpWhen((user) => user.twoFactorEnabled), twoFactorController.setupEmail);
+router.post('/2fa/email/verify', authMiddleware, twoFactorRateLimit, twoFactorController.verifyEmail);
+router.post('/2fa/disable', authMiddleware, twoFactorRateLimit, twoFactorController.disable);
+
+// Step-up authentication for sensitive operations
+router.post('/step-up/code', authMiddleware, twoFactorRateLimit, twoFactorController.sendStepUpCode);
+router.post('/step-up', authMiddleware, twoFactorRateLimit, twoFactorController.stepUp);
+
+// Unlock an account locked after failed logins
+router.post('/unlock', unlockRateLimit, authController.unlockAccount);
 
 // Refresh tokens
 router.post('/refresh', authController.refreshToken);
 
+// Password recovery
+router.post('/password/forgot', forgotPasswordRateLimit, authController.forgotPassword);
+router.get('/password/reset/:token/validate', validateResetTokenRateLimit, authController.validateResetToken);
+router.post('/password/reset', resetPasswordRateLimit, authController.resetPassword);
+
+// Change password (also lets OAuth-only users set their first password, which has no current
+// password to check and so needs a recent step-up)
+router.post('/password/change', authMiddleware, changePasswordRateLimit, requireStepUpWhen((user) => !user.hasPassword()), authController.changePassword);
+
 // Logout
 router.post('/logout', authMiddleware, authController.logout);
 
+// Logout from all devices
+router.post('/logout-all', authMiddleware, authController.logoutAll);
+
+// Active sessions management
+router.get('/sessions', authMiddleware, authController.getSessions);
+router.delete('/sessions/:id', authMiddleware, authController.revokeSession);
+
+// Linked sign-in providers (changes are sensitive: need a recent step-up)
+router.get('/identities', authMiddleware, authController.getIdentities);
+router.post('/identities/google', authMiddleware, requireStepUp(), authController.linkGoogle);
+router.post('/identities/:provider', authMiddleware, requireStepUp(), authController.linkOidc);
+router.delete('/identities/:provider', authMiddleware, requireStepUp(), authController.unlinkIdentity);
+
+// Change the sign-in email (confirmed from the new address) or the shop URL (sensitive: need a recent step-up)
+router.post('/account/email', authMiddleware, requireStepUp(), authController.requestEmailChange);
+router.post('/account/email/confirm', confirmEmailChangeRateLimit, authController.confirmEmailChange);
+router.put('/account/shop-url', authMiddleware, requireStepUp(), authController.changeShopUrl);
+
+// Deactivate the signed-in account (sensitive: needs a recent step-up)
+router.delete('/account', authMiddleware, requireStepUp(), authController.deleteAccount);
+
 // Check authentication status
 router.get('/check', authMiddleware, authController.checkAuth);
 
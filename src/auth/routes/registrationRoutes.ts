@@ -12,28 +12,54 @@ const registrationRateLimit = rateLimit({
   message: 'Too many registration attempts, please try again later',
 });
 
+// Progress reads and keep-alives are frequent, but each guess at a session token costs one
+const registrationSessionRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  message: 'Too many registration session requests, please try again later',
+});
+
 // Step 1: Start registration with email
 router.post('/start', registrationRateLimit, registrationController.startRegistration);
 
 // Verify email
 router.post('/verify-email/:token', registrationController.verifyEmail);
 
+// Verify email with the 6-digit code instead of the link
+router.post('/verify-code', registrationRateLimit, registrationController.verifyCode);
+
+// Resend the verification email (cooldown and daily cap per email)
+router.post('/resend-verification', registrationRateLimit, registrationController.resendVerification);
+
+// Continue a registration on another device
+router.post('/resume', registrationRateLimit, registrationController.requestResume);
+router.post('/resume/consume', registrationRateLimit, registrationController.consumeResume);
+
+// Registration progress and keep-alive
+router.get('/session', registrationSessionRateLimit, registrationController.getSession);
+router.post('/session/extend', registrationSessionRateLimit, registrationController.extendSession);
+
+// Unsubscribe link from idle registration reminders
+router.post('/reminders/unsubscribe', registrationRateLimit, registrationController.unsubscribeReminders);
+
 // for URL availability checking:
 router.get('/check-shop-url', registrationController.checkShopUrlAvailability);
 
 // Google OAuth registration
 router.post('/google', registrationController.googleAuth);
 
-// Step 2: Personal information
-router.post('/personal-info', registrationController.submitPersonalInfo);
+// Registration with any configured OIDC provider
+router.post('/oidc/:provider', registrationRateLimit, registrationController.oidcAuth);
 
-// Step 3: Business type
-router.post('/business-type', registrationController.submitBusinessType);
+// Steps 2-5: one handler driven by the step registry
+router.get('/steps', registrationController.getSteps);
+router.post('/steps/:step', registrationController.submitStep);
 
-// Step 4: Shop details
-router.post('/shop-details', registrationController.submitShopDetails);
+// Going back: read or edit an earlier step's answers
+router.get('/steps/:step', registrationController.getStepData);
+router.put('/steps/:step', registrationController.editStep);
 
-// Step 5: Location and complete
-router.post('/location', registrationController.submitLocation);
+// Original per-step paths
+router.post('/:step(personal-info|business-type|shop-details|location)', registrationController.submitStep);
 
 export { router as registrationRoutes };
\ No newline at end of file
@@ -0,0 +1,231 @@
+import bcrypt from 'bcryptjs';
+import { AuthService } from './AuthService';
+import { EmailService } from './EmailService';
+import { User } from '../models/User';
+import { UnauthorizedError } from '@/utils/AppError';
+import { config } from '@/config';
+import { createFakeDatabase, FakeDatabase } from '@/test/fakeDatabase';
+import { resetFakeRedis } from '@/test/fakeRedis';
+
+let mockDb: FakeDatabase;
+
+jest.mock('@/database/connection', () => ({ getDatabase: () => mockDb }));
+jest.mock('@/database/redis', () => jest.requireActual('@/test/fakeRedis').fakeRedisModule());
+jest.mock('./EmailService');
+
+describe('AuthService refresh token rotation', () => {
+  const user = new User({ id: 'user-1', email: 'owner@example.com', firstName: 'Ada', isActive: true });
+  let authService: AuthService;
+
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+    resetFakeRedis();
+    jest.clearAllMocks();
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    authService = new AuthService();
+  });
+
+  // Move a token's rotation back past the grace window for concurrent refreshes
+  const rotatedLongAgo = (row: Record<string, any>) => {
+    row.revoked_at = new Date(Date.now() - (config.jwt.refreshReuseGraceSeconds + 1) * 1000);
+  };
+
+  it('rotates a refresh token into a new one in the same family', async () => {
+    const issued = await authService.generateTokens(user);
+    const rotated = await authService.refreshTokens(issued.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+
+    const [original, replacement] = mockDb.rows('refresh_tokens');
+    expect(replacement.family_id).toBe(original.family_id);
+    expect(original.revoked_at).toBeInstanceOf(Date);
+    expect(original.replaced_by).toBe(replacement.id);
+    expect(replacement.revoked_at).toBeUndefined();
+
+    await expect(authService.validateAccessToken(rotated.accessToken)).resolves.toMatchObject({ userId: user.id });
+  });
+
+  it('revokes the whole family when a rotated refresh token is replayed', async () => {
+    const issued = await authService.generateTokens(user);
+    const rotated = await authService.refreshTokens(issued.refreshToken);
+    rotatedLongAgo(mockDb.rows('refresh_tokens')[0]);
+
+    await expect(authService.refreshTokens(issued.refreshToken))
+      .rejects.toThrow('Refresh token has already been used. Please sign in again.');
+
+    // Every refresh token in the family is gone, including the one the legitimate client holds
+    expect(mockDb.rows('refresh_tokens')).toHaveLength(0);
+    await expect(authService.refreshTokens(rotated.refreshToken)).rejects.toThrow(UnauthorizedError);
+
+    // Access tokens already issued for the family are denied too
+    await expect(authService.validateAccessToken(issued.accessToken)).rejects.toThrow('Access token has been revoked');
+    await expect(authService.validateAccessToken(rotated.accessToken)).rejects.toThrow('Access token has been revoked');
+
+    expect(EmailService.prototype.sendSecurityAlertEmail).toHaveBeenCalledWith(
+      user.email,
+      user.firstName,
+      expect.objectContaining({ title: 'Suspicious sign-in activity' })
+    );
+  });
+
+  it('leaves the user\'s other sessions signed in after a replay', async () => {
+    const otherSession = await authService.generateTokens(user);
+    const issued = await authService.generateTokens(user);
+    await authService.refreshTokens(issued.refreshToken);
+    rotatedLongAgo(mockDb.rows('refresh_tokens')[1]);
+
+    await expect(authService.refreshTokens(issued.refreshToken)).rejects.toThrow(UnauthorizedError);
+
+    await expect(authService.validateAccessToken(otherSession.accessToken)).resolves.toMatchObject({ userId: user.id });
+    await expect(authService.refreshTokens(otherSession.refreshToken)).resolves.toHaveProperty('accessToken');
+  });
+
+  it('lets two concurrent refreshes of the same token both succeed without revoking the family', async () => {
+    const issued = await authService.generateTokens(user);
+
+    const [first, second] = await Promise.all([
+      authService.refreshTokens(issued.refreshToken),
+      authService.refreshTokens(issued.refreshToken)
+    ]);
+
+    await expect(authService.validateAccessToken(first.accessToken)).resolves.toMatchObject({ userId: user.id });
+    await expect(authService.validateAccessToken(second.accessToken)).resolves.toMatchObject({ userId: user.id });
+    await expect(authService.refreshTokens(first.refreshToken)).resolves.toHaveProperty('accessToken');
+    expect(EmailService.prototype.sendSecurityAlertEmail).not.toHaveBeenCalled();
+  });
+
+  it('treats a token presented within the grace window from another user agent as replayed', async () => {
+    const issued = await authService.generateTokens(user, { userAgent: 'Firefox on Linux' });
+    await authService.refreshTokens(issued.refreshToken, { userAgent: 'Firefox on Linux' });
+
+    await expect(authService.refreshTokens(issued.refreshToken, { userAgent: 'curl/8.0' }))
+      .rejects.toThrow('Refresh token has already been used. Please sign in again.');
+    expect(mockDb.rows('refresh_tokens')).toHaveLength(0);
+  });
+
+  it('treats a token presented within the grace window as replayed once its successor has been used', async () => {
+    const issued = await authService.generateTokens(user);
+    const rotated = await authService.refreshTokens(issued.refreshToken);
+    await authService.refreshTokens(rotated.refreshToken);
+
+    await expect(authService.refreshTokens(issued.refreshToken))
+      .rejects.toThrow('Refresh token has already been used. Please sign in again.');
+    expect(mockDb.rows('refresh_tokens')).toHaveLength(0);
+  });
+});
+
+describe('AuthService sign-out everywhere', () => {
+  const user = new User({ id: 'user-1', email: 'owner@example.com', firstName: 'Ada', isActive: true });
+  let authService: AuthService;
+
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+    resetFakeRedis();
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    authService = new AuthService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a sign-in from the same second as a revoke-all, but not the tokens it revoked', async () => {
+    const second = Math.floor(Date.now() / 1000) * 1000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(second + 100);
+    const before = await authService.generateTokens(user);
+
+    clock.mockReturnValue(second + 300);
+    await authService.revokeAllUserTokens(user.id);
+
+    clock.mockReturnValue(second + 600);
+    const after = await authService.generateTokens(user);
+
+    await expect(authService.validateAccessToken(before.accessToken)).rejects.toThrow('Access token has been revoked');
+    await expect(authService.validateAccessToken(after.accessToken)).resolves.toMatchObject({ userId: user.id });
+  });
+});
+
+describe('AuthService password reset requests', () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+    jest.clearAllMocks();
+    authService = new AuthService();
+  });
+
+  const request = async (user: User | null) => {
+    jest.spyOn(User, 'findByEmail').mockResolvedValue(user);
+    return authService.generatePasswordResetToken('owner@example.com');
+  };
+
+  it('issues a token only for an active account with a password', async () => {
+    await expect(request(new User({ id: 'user-1', email: 'owner@example.com', password: 'hash', isActive: true })))
+      .resolves.toEqual(expect.any(String));
+  });
+
+  it('answers the same for unknown, deactivated and password-less accounts', async () => {
+    await expect(request(null)).resolves.toBeNull();
+    await expect(request(new User({ id: 'user-1', email: 'owner@example.com', password: 'hash', isActive: false }))).resolves.toBeNull();
+    await expect(request(new User({ id: 'user-1', email: 'owner@example.com', isActive: false }))).resolves.toBeNull();
+    expect(EmailService.prototype.sendPasswordlessAccountEmail).not.toHaveBeenCalled();
+
+    const googleUser = new User({ id: 'user-1', email: 'owner@example.com', firstName: 'Ada', isActive: true, linkedProviders: ['google'] });
+    await expect(request(googleUser)).resolves.toBeNull();
+    expect(EmailService.prototype.sendPasswordlessAccountEmail).toHaveBeenCalledWith('owner@example.com', 'Ada', ['google']);
+    expect(mockDb.rows('password_resets')).toHaveLength(0);
+  });
+
+  it('answers the same for a password-less account when its email fails to send', async () => {
+    jest.mocked(EmailService.prototype.sendPasswordlessAccountEmail).mockRejectedValueOnce(new Error('SMTP down'));
+
+    const oidcUser = new User({ id: 'user-1', email: 'owner@example.com', firstName: 'Ada', isActive: true, linkedProviders: ['okta'] });
+    await expect(request(oidcUser)).resolves.toBeNull();
+  });
+});
+
+describe('AuthService magic link requests', () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+    jest.clearAllMocks();
+    authService = new AuthService();
+  });
+
+  it('answers the same for an existing account when the sign-in link fails to send', async () => {
+    jest.spyOn(User, 'findByEmail').mockResolvedValue(new User({ id: 'user-1', email: 'owner@example.com', isActive: true }));
+    jest.mocked(EmailService.prototype.sendMagicLinkEmail).mockRejectedValueOnce(new Error('SMTP down'));
+
+    await expect(authService.requestMagicLink('owner@example.com')).resolves.toBeUndefined();
+  });
+});
+
+describe('AuthService password change', () => {
+  let authService: AuthService;
+  let user: User;
+
+  beforeEach(async () => {
+    mockDb = createFakeDatabase();
+    resetFakeRedis();
+    jest.clearAllMocks();
+    user = new User({ id: 'user-1', email: 'owner@example.com', firstName: 'Ada', isActive: true, password: await bcrypt.hash('Old-password-1', 4) });
+    mockDb.rows('users').push({ id: user.id });
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    authService = new AuthService();
+  });
+
+  it('keeps the caller\'s session, identified by its access token, and signs out the rest', async () => {
+    const otherDevice = await authService.generateTokens(user);
+    const current = await authService.generateTokens(user);
+    const { sessionId } = await authService.validateAccessToken(current.accessToken);
+
+    await authService.changePassword(user.id, { currentPassword: 'Old-password-1', newPassword: 'New-password-2' }, sessionId);
+
+    await expect(authService.validateAccessToken(current.accessToken)).resolves.toMatchObject({ userId: user.id });
+    await expect(authService.refreshTokens(current.refreshToken)).resolves.toHaveProperty('accessToken');
+
+    await expect(authService.validateAccessToken(otherDevice.accessToken)).rejects.toThrow('Access token has been revoked');
+    await expect(authService.refreshTokens(otherDevice.refreshToken)).rejects.toThrow(UnauthorizedError);
+  });
+});
@@ -3,25 +3,92 @@ import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { config } from '@/config';
 import { User } from '../models/User';
-import { AppError, UnauthorizedError, BadRequestError } from '@/utils/AppError';
+import { UserIdentity } from '../models/UserIdentity';
+import { RegistrationSession } from '../models/RegistrationSession';
+import { AppError, UnauthorizedError, BadRequestError, ConflictError, NotFoundError, LockedError, TooManyRequestsError } from '@/utils/AppError';
 import { logger } from '@/utils/logger';
 import { getDatabase } from '@/database/connection';
-import { AuthTokens } from '../types/auth';
+import { AuthTokens, SessionContext, ActiveSession, AuthenticationInfo, AuthMethod, TwoFactorMethod, OAuthProvider, OAuthProfile } from '../types/auth';
+import { ChangePasswordRequest } from '@/types/api';
+import { EmailService } from './EmailService';
+import { TokenKeyService, TOKEN_ISSUER, TOKEN_AUDIENCE } from './TokenKeyService';
+import { TokenDenylistService } from './TokenDenylistService';
+import { TwoFactorService, SecondFactorInput } from './TwoFactorService';
+import { GoogleOAuthService } from './GoogleOAuthService';
+import { OidcService } from './OidcService';
+
+const PASSWORD_RESET_EXPIRY_MS = 15 * 60 * 1000; // 15 minutes
+const ACCOUNT_UNLOCK_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAGIC_LINK_EXPIRY_MINUTES = 15;
+const EMAIL_CHANGE_EXPIRY_MINUTES = 60;
 
 export interface AuthenticatedUser {
   user: User;
   tokens: AuthTokens;
 }
 
+// Returned instead of tokens when the password was right but a second factor is required
+export interface MfaChallenge {
+  mfaRequired: true;
+  method: TwoFactorMethod;
+  user: User;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+// A fresh access token proving a recent second factor
+export interface StepUpResult {
+  accessToken: string;
+  expiresIn: number;
+}
+
 export interface JWTPayload {
   userId: string;
   email: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'mfa';
+  sessionId?: string;
+  auth_time?: number;
+  amr?: AuthMethod[];
+  jti?: string;
+  iat?: number;
+  // Issue time in milliseconds; iat alone can't order a token against a revocation in the same second
+  iat_ms?: number;
+  exp?: number;
+}
+
+// A pending MFA challenge and the first factor that started it
+interface VerifiedMfaChallenge {
+  user: User;
+  amr: AuthMethod[];
+}
+
+// A refresh token family spans every rotation of a single login
+interface TokenFamily {
+  id: string;
+  createdAt: Date;
+  // The refresh token this rotation replaces
+  rotatedFrom?: string;
 }
 
 export class AuthService {
+  private emailService: EmailService;
+  private tokenKeyService: TokenKeyService;
+  private tokenDenylist: TokenDenylistService;
+  private twoFactorService: TwoFactorService;
+  private googleOAuthService: GoogleOAuthService;
+  private oidcService: OidcService;
+
+  constructor() {
+    this.emailService = new EmailService();
+    this.tokenKeyService = new TokenKeyService();
+    this.tokenDenylist = new TokenDenylistService();
+    this.twoFactorService = new TwoFactorService();
+    this.googleOAuthService = new GoogleOAuthService();
+    this.oidcService = new OidcService();
+  }
+
   // Authenticate user with email and password
-  async authenticate(email: string, password: string): Promise<AuthenticatedUser | null> {
+  async authenticate(email: string, password: string, context: SessionContext = {}): Promise<AuthenticatedUser | MfaChallenge | null> {
     try {
       // Find user by email
       const user = await User.findByEmail(email);
@@ -34,14 +101,27 @@ export class AuthService {
         throw new UnauthorizedError('Account is deactivated');
       }
 
+      await this.enforceLoginThrottle(user);
+
       // Verify password
       const isValidPassword = await user.verifyPassword(password);
       if (!isValidPassword) {
+        await this.handleFailedLogin(user);
         return null;
       }
 
+      // Failure counters are only cleared once every factor has passed
+      if (user.twoFactorEnabled) {
+        logger.info(`Password accepted, second factor required: ${email}`);
+        return this.createMfaChallenge(user);
+      }
+
+      if (user.failedLoginAttempts > 0) {
+        await user.resetFailedLogins();
+      }
+
       // Generate tokens
-      const tokens = await this.generateTokens(user);
+      const tokens = await this.generateTokens(user, context, undefined, this.authenticatedNow(['pwd']));
 
       logger.info(`User authenticated successfully: ${email}`);
       return { user, tokens };
@@ -51,37 +131,480 @@ export class AuthService {
     }
   }
 
-  // Generate access and refresh tokens
-  async generateTokens(user: User): Promise<AuthTokens> {
+  // Issue a short-lived token proving the first factor passed, emailing a code when that is the user's factor
+  private async createMfaChallenge(user: User, amr: AuthMethod[] = ['pwd']): Promise<MfaChallenge> {
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      type: 'mfa',
+      amr
+    };
+
+    const mfaToken = jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.security.twoFactor.challengeExpiresIn as jwt.SignOptions['expiresIn'],
+      issuer: TOKEN_ISSUER,
+      audience: TOKEN_AUDIENCE,
+      subject: user.id
+    });
+
+    const method = user.twoFactorMethod || TwoFactorMethod.TOTP;
+    if (method === TwoFactorMethod.EMAIL) {
+      // A code sent moments ago is still valid, so a cooldown here is not an error
+      try {
+        await this.twoFactorService.sendLoginCode(user);
+      } catch (error) {
+        logger.warn(`Login code not sent for ${user.email}:`, error);
+      }
+    }
+
+    return {
+      mfaRequired: true,
+      method,
+      user,
+      mfaToken,
+      expiresIn: this.getTokenExpirationTime(config.security.twoFactor.challengeExpiresIn)
+    };
+  }
+
+  // Second login phase: exchange an MFA challenge and a second factor for tokens
+  async completeMfaLogin(mfaToken: string, factor: SecondFactorInput, context: SessionContext = {}): Promise<AuthenticatedUser> {
+    const { user, amr } = await this.verifyMfaChallenge(mfaToken);
+
+    await this.enforceLoginThrottle(user);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const method = await this.twoFactorService.verifySecondFactor(user, factor);
+    if (!method) {
+      await this.handleFailedLogin(user);
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    if (user.failedLoginAttempts > 0) {
+      await user.resetFailedLogins();
+    }
+
+    const tokens = await this.generateTokens(user, context, undefined, this.authenticatedNow([...amr, method, 'mfa']));
+
+    logger.info(`User completed two-factor login: ${user.email}`);
+    return { user, tokens };
+  }
+
+  // Send another login code for a pending MFA challenge
+  async resendMfaLoginCode(mfaToken: string): Promise<void> {
+    const { user } = await this.verifyMfaChallenge(mfaToken);
+    await this.twoFactorService.sendLoginCode(user);
+  }
+
+  // Prove a fresh factor within the current session and get an access token saying so
+  async stepUp(userId: string, sessionId: string | undefined, factor: SecondFactorInput, previousAmr: AuthMethod[] = []): Promise<StepUpResult> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    if (!sessionId) {
+      throw new UnauthorizedError('Session not found. Please sign in again.');
+    }
+
+    const method = await this.twoFactorService.verifyStepUpFactor(user, factor);
+    if (!method) {
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    const amr = Array.from(new Set<AuthMethod>([...previousAmr, method]));
+    const accessToken = await this.signAccessToken(user, sessionId, this.authenticatedNow(amr));
+
+    logger.info(`Step-up authentication completed for user: ${user.email}`);
+    return {
+      accessToken,
+      expiresIn: this.getTokenExpirationTime(config.jwt.expiresIn)
+    };
+  }
+
+  // Email a step-up code to the signed-in user
+  async sendStepUpCode(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    await this.twoFactorService.sendStepUpCode(user);
+  }
+
+  // Resolve the user behind an MFA challenge token
+  private async verifyMfaChallenge(mfaToken: string): Promise<VerifiedMfaChallenge> {
+    let payload: JWTPayload;
     try {
-      const accessTokenPayload: JWTPayload = {
-        userId: user.id,
-        email: user.email,
-        type: 'access'
-      };
+      payload = jwt.verify(mfaToken, config.jwt.secret, {
+        issuer: TOKEN_ISSUER,
+        audience: TOKEN_AUDIENCE
+      }) as JWTPayload;
+    } catch (error) {
+      throw new UnauthorizedError('Invalid or expired MFA challenge. Please sign in again.');
+    }
+
+    if (payload.type !== 'mfa') {
+      throw new UnauthorizedError('Invalid token type');
+    }
+
+    const user = await User.findById(payload.userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    return { user, amr: payload.amr || ['pwd'] };
+  }
+
+  // Sign in with a Google ID token; only accounts already linked to that Google account qualify
+  async authenticateWithGoogle(googleToken: string, context: SessionContext = {}): Promise<AuthenticatedUser | MfaChallenge> {
+    const profile = await this.googleOAuthService.verifyToken(googleToken);
+    return this.signInWithIdentity(OAuthProvider.GOOGLE, profile, context);
+  }
+
+  // Sign in with an ID token from any configured OIDC provider
+  async authenticateWithOidc(
+    provider: string,
+    idToken: string,
+    nonce?: string,
+    context: SessionContext = {}
+  ): Promise<AuthenticatedUser | MfaChallenge> {
+    const profile = await this.oidcService.verifyIdToken(provider, idToken, nonce);
+    return this.signInWithIdentity(provider, profile, context);
+  }
+
+  // Explicitly link a Google account to the signed-in user
+  async linkGoogleAccount(userId: string, googleToken: string): Promise<UserIdentity> {
+    const profile = await this.googleOAuthService.verifyToken(googleToken);
+    return this.linkIdentity(userId, OAuthProvider.GOOGLE, profile);
+  }
+
+  // Explicitly link an account from any configured OIDC provider
+  async linkOidcAccount(userId: string, provider: string, idToken: string, nonce?: string): Promise<UserIdentity> {
+    const profile = await this.oidcService.verifyIdToken(provider, idToken, nonce);
+    return this.linkIdentity(userId, provider, profile);
+  }
+
+  // Resolve a verified provider profile to its linked user and sign them in
+  private async signInWithIdentity(provider: string, profile: OAuthProfile, context: SessionContext): Promise<AuthenticatedUser | MfaChallenge> {
+    const identity = await UserIdentity.findByProvider(provider, profile.id);
+    const user = identity ? await User.findById(identity.userId) : null;
+    if (!identity || !user) {
+      // Never merge into an existing account on email alone
+      if (await User.findByEmail(profile.email)) {
+        throw new ConflictError(
+          `An account with this email already exists. Sign in another way and link ${provider} from your account settings.`
+        );
+      }
+      throw new NotFoundError(`No Celm account is linked to this ${provider} account. Please register first.`);
+    }
+
+    if (!user.isActive) {
+      throw new UnauthorizedError('Account is deactivated');
+    }
+
+    await identity.touch();
+
+    if (user.twoFactorEnabled) {
+      logger.info(`${provider} sign-in accepted, second factor required: ${user.email}`);
+      return this.createMfaChallenge(user, ['oauth']);
+    }
+
+    const tokens = await this.generateTokens(user, context, undefined, this.authenticatedNow(['oauth']));
+
+    logger.info(`User signed in with ${provider}: ${user.email}`);
+    return { user, tokens };
+  }
+
+  // Attach a verified provider profile to a signed-in user
+  private async linkIdentity(userId: string, provider: string, profile: OAuthProfile): Promise<UserIdentity> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    const existing = await UserIdentity.findByProvider(provider, profile.id);
+    if (existing) {
+      if (existing.userId !== user.id) {
+        throw new ConflictError(`This ${provider} account is already linked to another Celm account`);
+      }
+      return existing;
+    }
+
+    if (user.linkedProviders.includes(provider)) {
+      throw new ConflictError(`A different ${provider} account is already linked. Unlink it first.`);
+    }
+
+    const identity = await UserIdentity.create({
+      userId: user.id,
+      provider,
+      providerUserId: profile.id,
+      email: profile.email
+    });
+
+    logger.info(`${provider} account linked for user: ${user.email}`);
+    return identity;
+  }
+
+  // Sign-in methods available to a user
+  async listIdentities(userId: string): Promise<{ hasPassword: boolean; identities: UserIdentity[] }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    return {
+      hasPassword: user.hasPassword(),
+      identities: await UserIdentity.findByUserId(user.id)
+    };
+  }
+
+  // Unlink a provider, refusing to remove the user's last way to sign in
+  async unlinkIdentity(userId: string, provider: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    if (!user.linkedProviders.includes(provider)) {
+      throw new NotFoundError('This sign-in provider is not linked to your account');
+    }
+
+    const remainingMethods = user.linkedProviders.length - 1 + (user.hasPassword() ? 1 : 0);
+    if (remainingMethods < 1) {
+      throw new BadRequestError('You cannot unlink your only sign-in method. Set a password first.');
+    }
+
+    await UserIdentity.deleteForUser(user.id, provider);
+    logger.info(`Sign-in provider ${provider} unlinked for user: ${user.email}`);
+  }
+
+  // Email a passwordless sign-in link; silently does nothing for unknown or inactive accounts
+  async requestMagicLink(email: string): Promise<void> {
+    try {
+      const user = await User.findByEmail(email);
+      if (!user || !user.isActive) {
+        // Don't reveal if user exists
+        logger.warn(`Magic link requested for unknown or inactive account: ${email}`);
+        return;
+      }
+
+      const db = getDatabase();
+      const loginToken = crypto.randomBytes(32).toString('hex');
+      const hashedToken = crypto.createHash('sha256').update(loginToken).digest('hex');
+
+      await db('magic_links').insert({
+        user_id: user.id,
+        token: hashedToken,
+        expires_at: new Date(Date.now() + MAGIC_LINK_EXPIRY_MINUTES * 60 * 1000),
+        created_at: new Date()
+      });
+
+      // A failed send answers like an unknown address, so it can't reveal which accounts exist
+      try {
+        await this.emailService.sendMagicLinkEmail(user.email, user.firstName, loginToken, MAGIC_LINK_EXPIRY_MINUTES);
+        logger.info(`Magic link sent to user: ${email}`);
+      } catch (error) {
+        logger.error('Failed to send magic link email:', error);
+      }
+    } catch (error) {
+      logger.error('Magic link request error:', error);
+      throw new AppError('Failed to send sign-in link', 500);
+    }
+  }
+
+  // Exchange a magic link for tokens (or an MFA challenge); every outstanding link dies on use
+  async consumeMagicLink(token: string, context: SessionContext = {}): Promise<AuthenticatedUser | MfaChallenge> {
+    const db = getDatabase();
+    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+    const linkRecord = await db('magic_links')
+      .where('token', hashedToken)
+      .where('expires_at', '>', new Date())
+      .first();
+
+    if (!linkRecord) {
+      throw new BadRequestError('Invalid or expired sign-in link');
+    }
+
+    // Deleting by id first means only one concurrent request can win the link
+    const claimed = await db('magic_links').where('id', linkRecord.id).del();
+    if (!claimed) {
+      throw new BadRequestError('Invalid or expired sign-in link');
+    }
+    await db('magic_links').where('user_id', linkRecord.user_id).del();
+
+    const user = await User.findById(linkRecord.user_id);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    if (user.twoFactorEnabled) {
+      logger.info(`Magic link accepted, second factor required: ${user.email}`);
+      return this.createMfaChallenge(user, ['link']);
+    }
+
+    const tokens = await this.generateTokens(user, context, undefined, this.authenticatedNow(['link']));
+
+    logger.info(`User signed in with magic link: ${user.email}`);
+    return { user, tokens };
+  }
+
+  // Refuse logins while the account is locked or backing off after failures
+  private async enforceLoginThrottle(user: User): Promise<void> {
+    const { backoffAfterAttempts, backoffBaseSeconds } = config.security.lockout;
+
+    if (user.isLocked()) {
+      const minutesLeft = Math.ceil((user.lockedUntil!.getTime() - Date.now()) / 60000);
+      throw new LockedError(
+        `Account is temporarily locked after too many failed login attempts. ` +
+        `Use the unlock link sent to your email or try again in ${minutesLeft} minute(s).`
+      );
+    }
+
+    // An expired lock starts the count afresh
+    if (user.lockedUntil) {
+      await user.resetFailedLogins();
+      return;
+    }
+
+    if (user.failedLoginAttempts >= backoffAfterAttempts && user.lastFailedLoginAt) {
+      const delaySeconds = backoffBaseSeconds * Math.pow(2, user.failedLoginAttempts - backoffAfterAttempts);
+      const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+
+      if (retryAt > Date.now()) {
+        const secondsLeft = Math.ceil((retryAt - Date.now()) / 1000);
+        throw new TooManyRequestsError(`Too many failed login attempts. Please try again in ${secondsLeft} second(s).`);
+      }
+    }
+  }
+
+  // Count a failed login and lock the account once the limit is reached
+  private async handleFailedLogin(user: User): Promise<void> {
+    const { maxFailedAttempts, durationMinutes } = config.security.lockout;
+    const attempts = await user.recordFailedLogin();
+
+    if (attempts < maxFailedAttempts) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + durationMinutes * 60 * 1000);
+    await user.lockUntil(lockedUntil);
+    logger.warn(`Account locked after ${attempts} failed login attempts: ${user.email}`);
+
+    try {
+      const unlockToken = await this.generateAccountUnlockToken(user.id);
+      await this.emailService.sendAccountLockedEmail(user.email, user.firstName, unlockToken, lockedUntil);
+    } catch (error) {
+      logger.error('Failed to send account unlock email:', error);
+    }
+  }
+
+  // Create a one-time unlock token, replacing any earlier one
+  private async generateAccountUnlockToken(userId: string): Promise<string> {
+    const db = getDatabase();
+    const unlockToken = crypto.randomBytes(32).toString('hex');
+    const hashedToken = crypto.createHash('sha256').update(unlockToken).digest('hex');
+
+    await db('account_unlocks').where('user_id', userId).del();
+    await db('account_unlocks').insert({
+      user_id: userId,
+      token: hashedToken,
+      expires_at: new Date(Date.now() + ACCOUNT_UNLOCK_EXPIRY_MS),
+      created_at: new Date()
+    });
+
+    return unlockToken;
+  }
+
+  // Unlock an account with the one-time link from the lockout email
+  async unlockAccount(token: string): Promise<User> {
+    const db = getDatabase();
+    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+    const unlockRecord = await db('account_unlocks')
+      .where('token', hashedToken)
+      .where('expires_at', '>', new Date())
+      .first();
+
+    if (!unlockRecord) {
+      throw new BadRequestError('Invalid or expired unlock link');
+    }
+
+    const user = await User.findById(unlockRecord.user_id);
+    if (!user) {
+      throw new BadRequestError('User not found');
+    }
+
+    await this.clearAccountLock(user);
+
+    logger.info(`Account unlocked via email link: ${user.email}`);
+    return user;
+  }
+
+  // Lock state and failed login count for admin support
+  async getAccountLockState(userId: string): Promise<ReturnType<User['getLockState']>> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user.getLockState();
+  }
+
+  // Unlock an account on an admin's behalf, clearing its failed login count
+  async unlockAccountAsAdmin(userId: string, adminId: string): Promise<User> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.clearAccountLock(user);
+
+    logger.info(`Account unlocked by admin ${adminId}: ${user.email}`);
+    return user;
+  }
+
+  // Reset the failed login count and retire any outstanding unlock link
+  private async clearAccountLock(user: User): Promise<void> {
+    const db = getDatabase();
+    await user.resetFailedLogins();
+    await db('account_unlocks').where('user_id', user.id).del();
+  }
 
+  // Generate access and refresh tokens, starting a new token family unless one is given
+  async generateTokens(
+    user: User,
+    context: SessionContext = {},
+    family?: TokenFamily,
+    authentication: AuthenticationInfo = this.authenticatedNow(['pwd'])
+  ): Promise<AuthTokens> {
+    try {
+      const sessionId = family?.id || crypto.randomUUID();
+
+      // The refresh token carries auth_time/amr so rotation keeps the original login time
       const refreshTokenPayload: JWTPayload = {
         userId: user.id,
         email: user.email,
-        type: 'refresh'
+        type: 'refresh',
+        sessionId,
+        auth_time: authentication.authTime,
+        amr: authentication.amr
       };
 
-      const accessToken = jwt.sign(accessTokenPayload, config.jwt.secret, {
-        expiresIn: '24h',
-        issuer: 'celm-api',
-        audience: 'celm-app',
-        subject: user.id
-      });
+      const accessToken = await this.signAccessToken(user, sessionId, authentication);
 
+      // Refresh tokens are only ever verified here, so they stay HMAC-signed. The jti keeps a
+      // rotation within the same second from reproducing the token it replaces.
       const refreshToken = jwt.sign(refreshTokenPayload, config.jwt.refreshSecret, {
-        expiresIn: '24h',
-        issuer: 'celm-api',
-        audience: 'celm-app',
-        subject: user.id
+        expiresIn: config.jwt.refreshExpiresIn as jwt.SignOptions['expiresIn'],
+        issuer: TOKEN_ISSUER,
+        audience: TOKEN_AUDIENCE,
+        subject: user.id,
+        jwtid: crypto.randomUUID()
       });
 
       // Store refresh token in database
-      await this.storeRefreshToken(user.id, refreshToken);
+      await this.storeRefreshToken(sessionId, user.id, refreshToken, context, family?.createdAt, family?.rotatedFrom);
 
       // Calculate expiration time
       const expiresIn = this.getTokenExpirationTime(config.jwt.expiresIn);
@@ -97,37 +620,63 @@ export class AuthService {
     }
   }
 
+  // Access tokens may be asymmetric so other services can verify them via JWKS
+  private async signAccessToken(user: User, sessionId: string, authentication: AuthenticationInfo): Promise<string> {
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      type: 'access',
+      sessionId,
+      auth_time: authentication.authTime,
+      amr: authentication.amr,
+      iat_ms: Date.now()
+    };
+
+    return this.tokenKeyService.sign(payload, {
+      expiresIn: config.jwt.expiresIn,
+      subject: user.id,
+      jwtId: crypto.randomUUID()
+    });
+  }
+
+  // Authentication that happened just now with the given methods
+  private authenticatedNow(amr: AuthMethod[]): AuthenticationInfo {
+    return { authTime: Math.floor(Date.now() / 1000), amr };
+  }
+
   // Validate access token
   async validateAccessToken(token: string): Promise<JWTPayload> {
-    try {
-      const payload = jwt.verify(token, config.jwt.secret, {
-        issuer: 'celm-api',
-        audience: 'celm-app'
-      }) as JWTPayload;
+    const payload = await this.tokenKeyService.verify<JWTPayload>(token);
 
-      if (payload.type !== 'access') {
-        throw new UnauthorizedError('Invalid token type');
-      }
+    if (payload.type !== 'access') {
+      throw new UnauthorizedError('Invalid token type');
+    }
 
-      return payload;
-    } catch (error) {
-      if (error instanceof jwt.JsonWebTokenError) {
-        throw new UnauthorizedError('Invalid access token');
-      }
-      if (error instanceof jwt.TokenExpiredError) {
-        throw new UnauthorizedError('Access token expired');
-      }
-      throw error;
+    if (await this.tokenDenylist.isDenied(payload)) {
+      throw new UnauthorizedError('Access token has been revoked');
+    }
+
+    return payload;
+  }
+
+  // Revoke a single access token until it expires
+  async revokeAccessToken(jti: string, expiresAt?: number): Promise<void> {
+    const ttlSeconds = expiresAt
+      ? expiresAt - Math.floor(Date.now() / 1000)
+      : this.getAccessTokenTtlSeconds();
+
+    if (ttlSeconds > 0) {
+      await this.tokenDenylist.denyToken(jti, ttlSeconds);
     }
   }
 
   // Refresh tokens
-  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
+  async refreshTokens(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
     try {
       // Validate refresh token
       const payload = jwt.verify(refreshToken, config.jwt.refreshSecret, {
-        issuer: 'celm-api',
-        audience: 'celm-app'
+        issuer: TOKEN_ISSUER,
+        audience: TOKEN_AUDIENCE
       }) as JWTPayload;
 
       if (payload.type !== 'refresh') {
@@ -135,22 +684,44 @@ export class AuthService {
       }
 
       // Check if refresh token exists in database
-      const isValidRefreshToken = await this.validateRefreshToken(payload.userId, refreshToken);
-      if (!isValidRefreshToken) {
+      const storedToken = await this.validateRefreshToken(payload.userId, refreshToken);
+      if (!storedToken) {
         throw new UnauthorizedError('Refresh token not found or expired');
       }
 
+      // Rotate old refresh token. Finding it already rotated means it has leaked, unless a
+      // concurrent refresh (e.g. another tab) rotated it moments ago.
+      const rotated = await this.markRefreshTokenRotated(storedToken.id);
+      if (!rotated) {
+        if (!(await this.lostConcurrentRotation(storedToken, context))) {
+          await this.handleRefreshTokenReuse(storedToken, context);
+          throw new UnauthorizedError('Refresh token has already been used. Please sign in again.');
+        }
+
+        // Accepted, but a stolen token replayed from the same client inside the window looks identical
+        logger.warn(`Rotated refresh token accepted within the reuse grace window for user ${storedToken.user_id}, family ${storedToken.family_id}, ip ${context.ipAddress || 'unknown'}`);
+      }
+
       // Get user
       const user = await User.findById(payload.userId);
       if (!user || !user.isActive) {
         throw new UnauthorizedError('User not found or inactive');
       }
 
-      // Revoke old refresh token
-      await this.revokeRefreshToken(refreshToken);
-
-      // Generate new tokens
-      const tokens = await this.generateTokens(user);
+      // Generate new tokens, keeping the original session metadata when the client sends none
+      const sessionContext: SessionContext = context.userAgent ? context : {
+        userAgent: storedToken.user_agent || undefined,
+        ipAddress: context.ipAddress || storedToken.ip_address || undefined,
+        deviceLabel: storedToken.device_label || undefined
+      };
+      const tokens = await this.generateTokens(user, sessionContext, {
+        id: storedToken.family_id,
+        createdAt: new Date(storedToken.created_at),
+        rotatedFrom: rotated ? storedToken.id : undefined
+      }, {
+        authTime: payload.auth_time || payload.iat || Math.floor(Date.now() / 1000),
+        amr: payload.amr || ['pwd']
+      });
 
       logger.info(`Tokens refreshed for user: ${user.email}`);
       return tokens;
@@ -165,19 +736,138 @@ export class AuthService {
     }
   }
 
-  // Generate password reset token
-  async generatePasswordResetToken(email: string): Promise<string> {
+  // Start an email change; it only takes effect once the new address confirms it
+  async requestEmailChange(userId: string, newEmail: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      throw new BadRequestError('New email must be different from the current email');
+    }
+
+    if (await User.findByEmail(newEmail)) {
+      throw new ConflictError('An account with this email already exists');
+    }
+
+    const db = getDatabase();
+    const confirmToken = crypto.randomBytes(32).toString('hex');
+    const hashedToken = crypto.createHash('sha256').update(confirmToken).digest('hex');
+
+    // Only the latest request can be confirmed
+    await db('email_changes').where('user_id', user.id).del();
+    await db('email_changes').insert({
+      user_id: user.id,
+      new_email: newEmail,
+      token: hashedToken,
+      expires_at: new Date(Date.now() + EMAIL_CHANGE_EXPIRY_MINUTES * 60 * 1000),
+      created_at: new Date()
+    });
+
+    await this.emailService.sendEmailChangeConfirmationEmail(newEmail, user.firstName, confirmToken, EMAIL_CHANGE_EXPIRY_MINUTES);
+    logger.info(`Email change requested for user: ${user.email}`);
+  }
+
+  // Apply a confirmed email change, then alert the old address and sign out every device
+  async confirmEmailChange(token: string): Promise<User> {
+    const db = getDatabase();
+    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+    const change = await db('email_changes')
+      .where('token', hashedToken)
+      .where('expires_at', '>', new Date())
+      .first();
+
+    if (!change) {
+      throw new BadRequestError('Invalid or expired confirmation link');
+    }
+
+    // Deleting by id first means only one concurrent request can use the link
+    const claimed = await db('email_changes').where('id', change.id).del();
+    if (!claimed) {
+      throw new BadRequestError('Invalid or expired confirmation link');
+    }
+
+    const user = await User.findById(change.user_id);
+    if (!user || !user.isActive) {
+      throw new BadRequestError('User not found');
+    }
+
+    const previousEmail = user.email;
+    await user.updateEmail(change.new_email);
+    await this.revokeAllUserTokens(user.id);
+
+    try {
+      await this.emailService.sendSecurityAlertEmail(previousEmail, user.firstName, {
+        title: 'Your email address was changed',
+        description: `Your Celm account now signs in with ${user.email}, and every device has been signed out. ` +
+          'If this wasn\'t you, contact support right away.',
+        occurredAt: new Date()
+      });
+    } catch (error) {
+      logger.error('Failed to send email change alert:', error);
+    }
+
+    logger.info(`Email changed for user ${user.id}: ${previousEmail} -> ${user.email}`);
+    return user;
+  }
+
+  // Move the user's shop to a URL that no account or in-progress registration holds
+  async changeShopUrl(userId: string, shopUrl: string): Promise<User> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
+    if (user.shopUrl === shopUrl) {
+      throw new BadRequestError('New shop URL must be different from the current one');
+    }
+
+    if (!RegistrationSession.validateShopUrlFormat(shopUrl)) {
+      throw new BadRequestError('Invalid shop URL format. Use only letters, numbers, and hyphens.');
+    }
+
+    if (!await RegistrationSession.isShopUrlAvailable(shopUrl)) {
+      throw new ConflictError('Shop URL is already taken');
+    }
+
+    const previousShopUrl = user.shopUrl;
+    await user.updateShopUrl(shopUrl);
+
+    logger.info(`Shop URL changed for user ${user.email}: ${previousShopUrl} -> ${shopUrl}`);
+    return user;
+  }
+
+  // Generate password reset token (null when no eligible account exists)
+  async generatePasswordResetToken(email: string): Promise<string | null> {
     try {
       const user = await User.findByEmail(email);
       if (!user) {
         // Don't reveal if user exists
         logger.warn(`Password reset attempted for non-existent email: ${email}`);
-        return crypto.randomBytes(32).toString('hex'); // Return dummy token
+        return null;
+      }
+
+      if (!user.isActive) {
+        logger.warn(`Password reset attempted for deactivated account: ${email}`);
+        return null;
+      }
+
+      // Same response as any other address, even if the mail fails; the owner learns by email how they sign in
+      if (!user.hasPassword()) {
+        try {
+          await this.emailService.sendPasswordlessAccountEmail(user.email, user.firstName, user.linkedProviders);
+        } catch (error) {
+          logger.error('Failed to send passwordless account email:', error);
+        }
+        logger.info(`Password reset requested for account without a password: ${email}`);
+        return null;
       }
 
       const resetToken = crypto.randomBytes(32).toString('hex');
       const hashedToken = crypto.createHash('sha256').update(resetToken).digest('hex');
-      const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MS);
 
       // Store reset token
       await this.storePasswordResetToken(user.id, hashedToken, expiresAt);
@@ -186,22 +876,36 @@ export class AuthService {
       return resetToken;
     } catch (error) {
       logger.error('Password reset token generation error:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('Failed to generate password reset token', 500);
     }
   }
 
+  // Tells a user without a password which of their linked providers to sign in with
+  private passwordlessAccountMessage(user: User): string {
+    const signInWith = user.linkedProviders.length > 0 ? user.linkedProviders.join(' or ') : 'your sign-in provider';
+    return `This account has no password. Please sign in with ${signInWith} instead.`;
+  }
+
+  // Check a password reset token without consuming it
+  async validatePasswordResetToken(token: string): Promise<{ expiresAt: Date }> {
+    const resetRecord = await this.findPasswordResetRecord(token);
+    if (!resetRecord) {
+      throw new BadRequestError('Invalid or expired reset token');
+    }
+
+    return { expiresAt: new Date(resetRecord.expires_at) };
+  }
+
   // Reset password
-  async resetPassword(token: string, newPassword: string): Promise<void> {
+  async resetPassword(token: string, newPassword: string): Promise<User> {
     try {
-      const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
-
-      // Find valid reset token
       const db = getDatabase();
-      const resetRecord = await db('password_resets')
-        .where('token', hashedToken)
-        .where('expires_at', '>', new Date())
-        .first();
 
+      // Find valid reset token
+      const resetRecord = await this.findPasswordResetRecord(token);
       if (!resetRecord) {
         throw new BadRequestError('Invalid or expired reset token');
       }
@@ -212,44 +916,114 @@ export class AuthService {
         throw new BadRequestError('User not found');
       }
 
+      if (!user.hasPassword()) {
+        throw new BadRequestError(this.passwordlessAccountMessage(user));
+      }
+
       // Update password
-      user.password = newPassword;
-      await user.save();
+      await user.updatePassword(newPassword);
 
       // Delete used reset token
-      await db('password_resets').where('token', hashedToken).del();
+      await db('password_resets').where('id', resetRecord.id).del();
 
       // Revoke all user sessions for security
       await this.revokeAllUserTokens(user.id);
 
       logger.info(`Password reset completed for user: ${user.email}`);
+      return user;
     } catch (error) {
       logger.error('Password reset error:', error);
       throw error;
     }
   }
 
+  // Change password for a signed-in user, keeping only the caller's session
+  async changePassword(userId: string, request: ChangePasswordRequest, currentSessionId?: string): Promise<User> {
+    try {
+      const user = await User.findById(userId);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedError('User not found or inactive');
+      }
+
+      // OAuth-only users may set their first password without a current one
+      if (user.hasPassword()) {
+        if (!request.currentPassword) {
+          throw new BadRequestError('Current password is required');
+        }
+
+        const isValidPassword = await user.verifyPassword(request.currentPassword);
+        if (!isValidPassword) {
+          throw new BadRequestError('Current password is incorrect');
+        }
+
+        if (await user.verifyPassword(request.newPassword)) {
+          throw new BadRequestError('New password must be different from the current password');
+        }
+      }
+
+      await user.updatePassword(request.newPassword);
+
+      // Sign out every other device
+      await this.revokeAllUserTokens(user.id, currentSessionId);
+
+      logger.info(`Password changed for user: ${user.email}`);
+      return user;
+    } catch (error) {
+      logger.error('Change password error:', error);
+      throw error;
+    }
+  }
+
+  // Find an unexpired password reset record by its plain token
+  private async findPasswordResetRecord(token: string): Promise<any | null> {
+    const db = getDatabase();
+    const hashedToken = crypto.createHash('sha256').update(token).digest('hex');
+
+    const resetRecord = await db('password_resets')
+      .where('token', hashedToken)
+      .where('expires_at', '>', new Date())
+      .first();
+
+    return resetRecord || null;
+  }
+
   // Store refresh token
-  private async storeRefreshToken(userId: string, refreshToken: string): Promise<void> {
+  private async storeRefreshToken(
+    familyId: string,
+    userId: string,
+    refreshToken: string,
+    context: SessionContext,
+    createdAt: Date = new Date(),
+    rotatedFrom?: string
+  ): Promise<void> {
     try {
       const db = getDatabase();
       const expiresAt = new Date(Date.now() + this.getTokenExpirationTime(config.jwt.refreshExpiresIn));
       const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex');
 
-      await db('refresh_tokens').insert({
+      const [stored] = await db('refresh_tokens').insert({
+        family_id: familyId,
         user_id: userId,
         token: hashedToken,
+        user_agent: context.userAgent || null,
+        ip_address: context.ipAddress || null,
+        device_label: context.deviceLabel || null,
         expires_at: expiresAt,
-        created_at: new Date()
-      });
+        created_at: createdAt,
+        last_used_at: new Date()
+      }).returning('id');
+
+      if (rotatedFrom) {
+        await db('refresh_tokens').where('id', rotatedFrom).update({ replaced_by: stored.id });
+      }
     } catch (error) {
       logger.error('Store refresh token error:', error);
       throw new AppError('Failed to store refresh token', 500);
     }
   }
 
-  // Validate refresh token
-  private async validateRefreshToken(userId: string, refreshToken: string): Promise<boolean> {
+  // Validate refresh token and return its stored record (including rotated ones)
+  private async validateRefreshToken(userId: string, refreshToken: string): Promise<any | null> {
     try {
       const db = getDatabase();
       const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex');
@@ -260,31 +1034,170 @@ export class AuthService {
         .where('expires_at', '>', new Date())
         .first();
 
-      return !!token;
+      return token || null;
     } catch (error) {
       logger.error('Validate refresh token error:', error);
+      return null;
+    }
+  }
+
+  // Mark a refresh token as rotated; returns false if it was already rotated
+  private async markRefreshTokenRotated(tokenId: string): Promise<boolean> {
+    const db = getDatabase();
+    const updated = await db('refresh_tokens')
+      .where('id', tokenId)
+      .whereNull('revoked_at')
+      .update({ revoked_at: new Date() });
+
+    return updated > 0;
+  }
+
+  // Whether an already-rotated token was rotated within the grace window, comes from the client it
+  // was issued to and its successor is still unused, as when two tabs refresh at once; a replay of
+  // a stolen token has to pass all three
+  private async lostConcurrentRotation(storedToken: any, context: SessionContext): Promise<boolean> {
+    // Tabs of one browser share a user agent; a missing one doesn't match a recorded one
+    if ((context.userAgent || null) !== (storedToken.user_agent || null)) {
+      return false;
+    }
+
+    const db = getDatabase();
+    const token = await db('refresh_tokens').where('id', storedToken.id).first();
+    if (!token?.revoked_at) {
       return false;
     }
+
+    const rotatedAgoMs = Date.now() - new Date(token.revoked_at).getTime();
+    if (rotatedAgoMs > config.jwt.refreshReuseGraceSeconds * 1000) {
+      return false;
+    }
+
+    // The winning refresh may not have stored its successor yet
+    if (!token.replaced_by) {
+      return true;
+    }
+
+    const successor = await db('refresh_tokens').where('id', token.replaced_by).first();
+    return !!successor && !successor.revoked_at;
+  }
+
+  // Revoke the whole family of a replayed refresh token and alert the owner
+  private async handleRefreshTokenReuse(storedToken: any, context: SessionContext): Promise<void> {
+    logger.warn(`Refresh token reuse detected for user ${storedToken.user_id}, family ${storedToken.family_id}`);
+
+    await this.revokeTokenFamily(storedToken.family_id);
+
+    try {
+      const user = await User.findById(storedToken.user_id);
+      if (user) {
+        await this.emailService.sendSecurityAlertEmail(user.email, user.firstName, {
+          title: 'Suspicious sign-in activity',
+          description: 'An old session token for your account was used again, which can mean it was stolen. ' +
+            'We have signed that session out on every device. If this wasn\'t you, please change your password.',
+          deviceLabel: context.deviceLabel || storedToken.device_label || undefined,
+          ipAddress: context.ipAddress,
+          occurredAt: new Date()
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to send refresh token reuse alert:', error);
+    }
+  }
+
+  // Revoke every token in a family, including access tokens already issued for it
+  private async revokeTokenFamily(familyId: string): Promise<void> {
+    const db = getDatabase();
+    await db('refresh_tokens').where('family_id', familyId).del();
+    await this.tokenDenylist.denySession(familyId, this.getAccessTokenTtlSeconds());
   }
 
-  // Revoke refresh token
+  // Revoke refresh token (and the session it belongs to)
   async revokeRefreshToken(refreshToken: string): Promise<void> {
     try {
       const db = getDatabase();
       const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex');
 
-      await db('refresh_tokens').where('token', hashedToken).del();
+      const storedToken = await db('refresh_tokens').where('token', hashedToken).first();
+      if (storedToken) {
+        await this.revokeTokenFamily(storedToken.family_id);
+      }
     } catch (error) {
       logger.error('Revoke refresh token error:', error);
       // Don't throw error for revocation failures
     }
   }
 
-  // Revoke all user tokens
-  async revokeAllUserTokens(userId: string): Promise<void> {
+  // List active sessions for a user, flagging the one making the request
+  async listSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    try {
+      const db = getDatabase();
+      const rows = await db('refresh_tokens')
+        .where('user_id', userId)
+        .whereNull('revoked_at')
+        .where('expires_at', '>', new Date())
+        .orderBy('last_used_at', 'desc');
+
+      return rows.map((row: any) => ({
+        id: row.family_id,
+        deviceLabel: row.device_label || 'Unknown device',
+        userAgent: row.user_agent || undefined,
+        ipAddress: row.ip_address || undefined,
+        createdAt: new Date(row.created_at),
+        lastUsedAt: new Date(row.last_used_at || row.created_at),
+        expiresAt: new Date(row.expires_at),
+        current: row.family_id === currentSessionId
+      }));
+    } catch (error) {
+      logger.error('List sessions error:', error);
+      throw new AppError('Failed to list sessions', 500);
+    }
+  }
+
+  // Revoke a single session belonging to a user
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
     try {
       const db = getDatabase();
-      await db('refresh_tokens').where('user_id', userId).del();
+      const deleted = await db('refresh_tokens')
+        .where('family_id', sessionId)
+        .where('user_id', userId)
+        .del();
+
+      if (deleted) {
+        await this.tokenDenylist.denySession(sessionId, this.getAccessTokenTtlSeconds());
+        logger.info(`Session ${sessionId} revoked for user: ${userId}`);
+      }
+      return deleted > 0;
+    } catch (error) {
+      logger.error('Revoke session error:', error);
+      throw new AppError('Failed to revoke session', 500);
+    }
+  }
+
+  // Revoke all user tokens, optionally keeping one session (refresh token family) signed in
+  async revokeAllUserTokens(userId: string, exceptSessionId?: string): Promise<void> {
+    try {
+      const db = getDatabase();
+
+      if (exceptSessionId) {
+        // Deny access tokens session by session so the caller's stays valid
+        const families = await db('refresh_tokens')
+          .where('user_id', userId)
+          .whereNot('family_id', exceptSessionId)
+          .distinct('family_id');
+
+        await db('refresh_tokens')
+          .where('user_id', userId)
+          .whereNot('family_id', exceptSessionId)
+          .del();
+
+        for (const { family_id } of families) {
+          await this.tokenDenylist.denySession(family_id, this.getAccessTokenTtlSeconds());
+        }
+      } else {
+        await db('refresh_tokens').where('user_id', userId).del();
+        await this.tokenDenylist.denyAllForUser(userId, this.getAccessTokenTtlSeconds());
+      }
+
       await db('password_resets').where('user_id', userId).del();
 
       logger.info(`All tokens revoked for user: ${userId}`);
@@ -294,6 +1207,19 @@ export class AuthService {
     }
   }
 
+  // Deactivate a user and revoke everything they hold
+  async deactivateUser(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new BadRequestError('User not found');
+    }
+
+    await user.updateActiveStatus(false);
+    await this.revokeAllUserTokens(user.id);
+
+    logger.info(`User deactivated: ${user.email}`);
+  }
+
   // Store password reset token
   private async storePasswordResetToken(userId: string, hashedToken: string, expiresAt: Date): Promise<void> {
     try {
@@ -315,6 +1241,11 @@ export class AuthService {
     }
   }
 
+  // Longest time an access token issued now can stay valid
+  private getAccessTokenTtlSeconds(): number {
+    return Math.ceil(this.getTokenExpirationTime(config.jwt.expiresIn) / 1000);
+  }
+
   // Convert expiration string to milliseconds
   private getTokenExpirationTime(expiresIn: string): number {
     const timeValue = parseInt(expiresIn.slice(0, -1));
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+import { User } from '../models/User';
+import { AppError, TooManyRequestsError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+import { getDatabase } from '@/database/connection';
+import { EmailService } from './EmailService';
+
+export type EmailOtpPurpose = 'login' | 'enroll' | 'step_up';
+
+// Completes the sentence "Enter the following code to ..."
+const PURPOSE_ACTIONS: Record<EmailOtpPurpose, string> = {
+  login: 'finish signing in to Celm',
+  enroll: 'turn on two-factor authentication',
+  step_up: 'confirm a sensitive change to your account'
+};
+
+export class EmailOtpService {
+  private emailService: EmailService;
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  // Email a fresh 6-digit code, replacing any earlier code for the same purpose
+  async sendCode(user: User, purpose: EmailOtpPurpose): Promise<void> {
+    const db = getDatabase();
+    const { expiryMinutes, resendCooldownSeconds } = config.security.emailOtp;
+
+    const existing = await db('email_otp_codes')
+      .where({ user_id: user.id, purpose })
+      .first();
+
+    if (existing) {
+      const retryAt = new Date(existing.created_at).getTime() + resendCooldownSeconds * 1000;
+      if (retryAt > Date.now()) {
+        const secondsLeft = Math.ceil((retryAt - Date.now()) / 1000);
+        throw new TooManyRequestsError(`Please wait ${secondsLeft} second(s) before requesting another code`);
+      }
+    }
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    try {
+      await db('email_otp_codes')
+        .insert({
+          user_id: user.id,
+          purpose,
+          code_hash: this.hashCode(code),
+          attempts: 0,
+          expires_at: new Date(Date.now() + expiryMinutes * 60 * 1000),
+          created_at: new Date()
+        })
+        .onConflict(['user_id', 'purpose'])
+        .merge();
+    } catch (error) {
+      logger.error('Failed to store email one-time code:', error);
+      throw new AppError('Failed to send verification code', 500);
+    }
+
+    await this.emailService.sendOneTimeCodeEmail(user.email, user.firstName, code, PURPOSE_ACTIONS[purpose], expiryMinutes);
+    logger.info(`Email one-time code (${purpose}) sent to user: ${user.email}`);
+  }
+
+  // Check a code; a correct code is consumed and too many wrong guesses burn it
+  async verifyCode(userId: string, purpose: EmailOtpPurpose, code: string): Promise<boolean> {
+    const db = getDatabase();
+    const record = await db('email_otp_codes')
+      .where({ user_id: userId, purpose })
+      .where('expires_at', '>', new Date())
+      .first();
+
+    if (!record || record.attempts >= config.security.emailOtp.maxAttempts) {
+      return false;
+    }
+
+    const expected = Buffer.from(record.code_hash, 'hex');
+    const actual = Buffer.from(this.hashCode(code), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      await db('email_otp_codes').where('id', record.id).increment('attempts', 1);
+      return false;
+    }
+
+    // Deleting by id keeps the code single-use under concurrent requests
+    const deleted = await db('email_otp_codes').where('id', record.id).del();
+    return deleted > 0;
+  }
+
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
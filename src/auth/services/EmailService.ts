@@ -12,6 +12,14 @@ export interface EmailOptions {
   from?: string;
 }
 
+export interface SecurityAlert {
+  title: string;
+  description: string;
+  deviceLabel?: string;
+  ipAddress?: string;
+  occurredAt: Date;
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -50,10 +58,11 @@ export class EmailService {
     }
   }
 
-  // Send verification email
-  async sendVerificationEmail(email: string, token: string, sessionToken: string): Promise<void> {
+  // Send verification email with both a link and a code to type in
+  // A null code sends the link alone, for sessions that have used up their code attempts
+  async sendVerificationEmail(email: string, token: string, sessionToken: string, code: string | null, codeExpiresInMinutes: number): Promise<void> {
     const verificationUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/verify-email?token=${token}&session=${sessionToken}`;
-    const template = EmailTemplates.verificationEmail(verificationUrl);
+    const template = EmailTemplates.verificationEmail(verificationUrl, code, codeExpiresInMinutes);
 
     await this.sendEmail({
       to: email,
@@ -95,6 +104,142 @@ export class EmailService {
     logger.info(`Password reset email sent to: ${email}`);
   }
 
+  // Explain to an account without a password how it signs in, in answer to a reset request
+  async sendPasswordlessAccountEmail(email: string, firstName: string, providers: string[]): Promise<void> {
+    const loginUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/login`;
+    const template = EmailTemplates.passwordlessAccountEmail(firstName, providers, loginUrl);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Passwordless account email sent to: ${email}`);
+  }
+
+  // Send passwordless sign-in link
+  async sendMagicLinkEmail(email: string, firstName: string, loginToken: string, expiresInMinutes: number): Promise<void> {
+    const loginUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/magic-link?token=${loginToken}`;
+    const template = EmailTemplates.magicLinkEmail(firstName, loginUrl, expiresInMinutes);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Magic link email sent to: ${email}`);
+  }
+
+  // Send a link that confirms a new email address for an existing account
+  async sendEmailChangeConfirmationEmail(email: string, firstName: string, confirmToken: string, expiresInMinutes: number): Promise<void> {
+    const confirmUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/email/confirm?token=${confirmToken}`;
+    const template = EmailTemplates.emailChangeConfirmationEmail(firstName, email, confirmUrl, expiresInMinutes);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Email change confirmation sent to: ${email}`);
+  }
+
+  // Send a link that continues an in-progress registration on another device
+  async sendRegistrationResumeEmail(email: string, resumeToken: string, currentStep: number, totalSteps: number, expiresInMinutes: number): Promise<void> {
+    const resumeUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/register/resume?token=${resumeToken}`;
+    const template = EmailTemplates.registrationResumeEmail(resumeUrl, currentStep, totalSteps, expiresInMinutes);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Registration resume email sent to: ${email}`);
+  }
+
+  // Nudge an idle registration to finish, with a resume link and a way to opt out
+  async sendRegistrationReminderEmail(email: string, resumeToken: string, unsubscribeToken: string, currentStep: number, totalSteps: number, expiresInMinutes: number): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const resumeUrl = `${frontendUrl}/auth/register/resume?token=${resumeToken}`;
+    const unsubscribeUrl = `${frontendUrl}/auth/register/reminders/unsubscribe?token=${unsubscribeToken}`;
+    const template = EmailTemplates.registrationReminderEmail(resumeUrl, unsubscribeUrl, currentStep, totalSteps, expiresInMinutes);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Registration reminder email sent to: ${email}`);
+  }
+
+  // Send password changed confirmation email
+  async sendPasswordChangedEmail(email: string, firstName: string): Promise<void> {
+    const recoveryUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/forgot-password`;
+    const template = EmailTemplates.passwordChangedEmail(firstName, recoveryUrl);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Password changed email sent to: ${email}`);
+  }
+
+  // Send security alert email
+  async sendSecurityAlertEmail(email: string, firstName: string, alert: SecurityAlert): Promise<void> {
+    const secureAccountUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/account/security`;
+    const template = EmailTemplates.securityAlertEmail(firstName, alert, secureAccountUrl);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Security alert email sent to: ${email}`);
+  }
+
+  // Send account locked email with a one-time unlock link
+  async sendAccountLockedEmail(email: string, firstName: string, unlockToken: string, lockedUntil: Date): Promise<void> {
+    const unlockUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/unlock-account?token=${unlockToken}`;
+    const template = EmailTemplates.accountLockedEmail(firstName, unlockUrl, lockedUntil);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`Account locked email sent to: ${email}`);
+  }
+
+  // Send a one-time code for email-based two-factor and step-up
+  async sendOneTimeCodeEmail(email: string, firstName: string, code: string, action: string, expiresInMinutes: number): Promise<void> {
+    const template = EmailTemplates.oneTimeCodeEmail(firstName, code, action, expiresInMinutes);
+
+    await this.sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+
+    logger.info(`One-time code email sent to: ${email}`);
+  }
+
   // Send business verification email (for future use)
   async sendBusinessVerificationEmail(email: string, businessName: string, verificationCode: string): Promise<void> {
     const html = `
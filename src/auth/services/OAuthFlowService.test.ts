@@ -0,0 +1,79 @@
+import { config, OidcProviderConfig } from '@/config';
+import { OAuthFlowService } from './OAuthFlowService';
+import { resetFakeRedis } from '@/test/fakeRedis';
+
+jest.mock('@/database/redis', () => jest.requireActual('@/test/fakeRedis').fakeRedisModule());
+
+describe('OAuthFlowService state binding', () => {
+  const provider: OidcProviderConfig = {
+    name: 'local-test',
+    issuer: 'https://issuer.example.test',
+    clientId: 'celm-test-client',
+    clientSecret: 'client-secret',
+    jwksUri: 'https://issuer.example.test/jwks',
+    authorizationEndpoint: 'https://issuer.example.test/authorize',
+    tokenEndpoint: 'https://issuer.example.test/token',
+    claims: {
+      subject: 'sub',
+      email: 'email',
+      emailVerified: 'email_verified',
+      name: 'name',
+      givenName: 'given_name',
+      familyName: 'family_name',
+      picture: 'picture'
+    }
+  };
+  const oauthFlowService = new OAuthFlowService();
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(() => {
+    config.oidc.providers.push(provider);
+  });
+
+  afterAll(() => {
+    config.oidc.providers.splice(config.oidc.providers.indexOf(provider), 1);
+  });
+
+  beforeEach(() => {
+    resetFakeRedis();
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ id_token: 'id-token' })));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const start = async () => {
+    const request = await oauthFlowService.createAuthorizationUrl('local-test');
+    return { ...request, state: new URL(request.url).searchParams.get('state')! };
+  };
+
+  it('exchanges the code when the callback carries the starting browser\'s cookie', async () => {
+    const { state, browserBinding } = await start();
+
+    const result = await oauthFlowService.handleCallback('local-test', 'auth-code', state, browserBinding);
+
+    expect(result.idToken).toBe('id-token');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a callback from a browser that did not start the flow, before exchanging the code', async () => {
+    const attacker = await start();
+    const victim = await start();
+
+    await expect(oauthFlowService.handleCallback('local-test', 'auth-code', attacker.state, undefined))
+      .rejects.toThrow('Sign-in must be finished in the browser that started it');
+    await expect(oauthFlowService.handleCallback('local-test', 'auth-code', attacker.state, victim.browserBinding))
+      .rejects.toThrow('Sign-in must be finished in the browser that started it');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('uses each state once', async () => {
+    const { state, browserBinding } = await start();
+    await oauthFlowService.handleCallback('local-test', 'auth-code', state, browserBinding);
+
+    await expect(oauthFlowService.handleCallback('local-test', 'auth-code', state, browserBinding))
+      .rejects.toThrow('Sign-in request expired or was already used');
+  });
+});
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { config, OidcProviderConfig } from '@/config';
+import { RedisService } from '@/database/redis';
+import { AppError, BadRequestError, UnauthorizedError } from '@/utils/AppError';
+import { LoginResponse } from '@/utils/loginResponse';
+import { logger } from '@/utils/logger';
+
+const STATE_KEY_PREFIX = 'auth:oauth:state';
+const EXCHANGE_KEY_PREFIX = 'auth:oauth:exchange';
+const EXCHANGE_CODE_TTL_SECONDS = 60;
+
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+// What we remember between redirecting to the provider and its callback
+interface PendingAuthorization {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+// Where to send the browser, plus the value it must carry back in the state cookie
+export interface AuthorizationRequest {
+  url: string;
+  browserBinding: string;
+  // The provider posts the callback cross-site, which SameSite=Lax cookies don't survive
+  formPost: boolean;
+}
+
+export interface AuthorizationResult {
+  idToken: string;
+  nonce: string;
+}
+
+// Server-side authorization code flow with PKCE; state and one-time exchange codes live in Redis
+export class OAuthFlowService {
+  private redis: RedisService | null = null;
+
+  // Build the provider's authorization URL and remember the PKCE verifier and nonce under the state
+  async createAuthorizationUrl(providerName: string): Promise<AuthorizationRequest> {
+    const provider = this.getProvider(providerName);
+
+    const state = this.randomToken();
+    const pending: PendingAuthorization = {
+      provider: provider.name,
+      codeVerifier: this.randomToken(),
+      nonce: this.randomToken()
+    };
+
+    const stored = await this.getRedis().set(`${STATE_KEY_PREFIX}:${state}`, JSON.stringify(pending), OAUTH_STATE_TTL_SECONDS);
+    if (!stored) {
+      throw new AppError('Sign-in is temporarily unavailable', 503);
+    }
+
+    const codeChallenge = crypto.createHash('sha256').update(pending.codeVerifier).digest('base64url');
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.getRedirectUri(provider.name),
+      scope: provider.scopes || 'openid email profile',
+      state,
+      nonce: pending.nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    });
+    if (provider.responseMode) {
+      params.set('response_mode', provider.responseMode);
+    }
+
+    return {
+      url: `${provider.authorizationEndpoint}?${params.toString()}`,
+      browserBinding: this.hashState(state),
+      formPost: provider.responseMode === 'form_post'
+    };
+  }
+
+  // Validate the callback state (single use, and only in the browser that started the flow)
+  // and trade the code for an ID token
+  async handleCallback(providerName: string, code: string, state: string, browserBinding?: string): Promise<AuthorizationResult> {
+    const provider = this.getProvider(providerName);
+
+    // Without this a callback URL started by someone else would sign the victim into their account
+    const expected = Buffer.from(this.hashState(state));
+    const actual = Buffer.from(browserBinding || '');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedError('Sign-in must be finished in the browser that started it. Please try again.');
+    }
+
+    const raw = await this.getRedis().getAndDelete(`${STATE_KEY_PREFIX}:${state}`);
+    const pending: PendingAuthorization | null = raw ? JSON.parse(raw) : null;
+    if (!pending || pending.provider !== provider.name) {
+      throw new UnauthorizedError('Sign-in request expired or was already used. Please try again.');
+    }
+
+    const response = await fetch(provider.tokenEndpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.getRedirectUri(provider.name),
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret!,
+        code_verifier: pending.codeVerifier
+      })
+    });
+
+    const body = await response.json().catch(() => ({})) as { id_token?: string; error?: string };
+    if (!response.ok || !body.id_token) {
+      logger.error(`OAuth code exchange failed for ${provider.name}: ${response.status} ${body.error || ''}`);
+      throw new UnauthorizedError(`Could not complete ${provider.name} sign-in`);
+    }
+
+    return { idToken: body.id_token, nonce: pending.nonce };
+  }
+
+  // Park a sign-in result behind a short-lived code the frontend redeems once
+  async createExchangeCode(result: LoginResponse): Promise<string> {
+    const code = this.randomToken();
+
+    const stored = await this.getRedis().set(`${EXCHANGE_KEY_PREFIX}:${code}`, JSON.stringify(result), EXCHANGE_CODE_TTL_SECONDS);
+    if (!stored) {
+      throw new AppError('Sign-in is temporarily unavailable', 503);
+    }
+
+    return code;
+  }
+
+  async redeemExchangeCode(code: string): Promise<LoginResponse> {
+    const raw = await this.getRedis().getAndDelete(`${EXCHANGE_KEY_PREFIX}:${code}`);
+    if (!raw) {
+      throw new BadRequestError('Invalid or expired sign-in code');
+    }
+
+    return JSON.parse(raw) as LoginResponse;
+  }
+
+  // Providers need endpoints and a client secret to take part in the code flow
+  private getProvider(providerName: string): OidcProviderConfig {
+    const provider = config.oidc.providers.find((candidate) => candidate.name === providerName);
+    if (!provider || !provider.authorizationEndpoint || !provider.tokenEndpoint || !provider.clientSecret) {
+      throw new BadRequestError(`Sign-in provider "${providerName}" does not support redirect sign-in`);
+    }
+    return provider;
+  }
+
+  private getRedirectUri(providerName: string): string {
+    return `${config.oauth.callbackBaseUrl}/${providerName}/callback`;
+  }
+
+  private hashState(state: string): string {
+    return crypto.createHash('sha256').update(state).digest('base64url');
+  }
+
+  private randomToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private getRedis(): RedisService {
+    if (!this.redis) {
+      try {
+        this.redis = new RedisService();
+      } catch (error) {
+        throw new AppError('Sign-in is temporarily unavailable', 503);
+      }
+    }
+    return this.redis;
+  }
+}
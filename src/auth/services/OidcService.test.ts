@@ -0,0 +1,102 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPair, exportJWK, SignJWT, KeyLike } from 'jose';
+import { config, OidcProviderConfig } from '@/config';
+import { OidcService } from './OidcService';
+
+const ISSUER = 'https://issuer.example.test';
+const CLIENT_ID = 'celm-test-client';
+
+// A local identity provider: one signing key, published as a JWKS over HTTP
+describe('OidcService.verifyIdToken against a local issuer', () => {
+  const oidcService = new OidcService();
+  let server: http.Server;
+  let signingKey: KeyLike;
+  let provider: OidcProviderConfig;
+
+  const idToken = (claims: Record<string, unknown> = {}, options: { kid?: string; key?: KeyLike; issuer?: string; audience?: string; expiresAt?: number } = {}) =>
+    new SignJWT({ email: 'Owner@Example.com', email_verified: true, name: 'Ada Owner', nonce: 'nonce-1', ...claims })
+      .setProtectedHeader({ alg: 'RS256', kid: options.kid ?? 'key-1' })
+      .setIssuer(options.issuer ?? ISSUER)
+      .setAudience(options.audience ?? CLIENT_ID)
+      .setSubject('subject-1')
+      .setIssuedAt()
+      .setExpirationTime(options.expiresAt ?? '5m')
+      .sign(options.key ?? signingKey);
+
+  beforeAll(async () => {
+    const { publicKey, privateKey } = await generateKeyPair('RS256');
+    signingKey = privateKey;
+    const jwks = JSON.stringify({ keys: [{ ...await exportJWK(publicKey), kid: 'key-1', alg: 'RS256', use: 'sig' }] });
+
+    server = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(jwks);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    provider = {
+      name: 'local-test',
+      issuer: ISSUER,
+      clientId: CLIENT_ID,
+      jwksUri: `http://127.0.0.1:${(server.address() as AddressInfo).port}/jwks`,
+      claims: {
+        subject: 'sub',
+        email: 'email',
+        emailVerified: 'email_verified',
+        name: 'name',
+        givenName: 'given_name',
+        familyName: 'family_name',
+        picture: 'picture'
+      }
+    };
+    config.oidc.providers.push(provider);
+  });
+
+  afterAll(async () => {
+    config.oidc.providers.splice(config.oidc.providers.indexOf(provider), 1);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('accepts a valid token and maps its claims', async () => {
+    const profile = await oidcService.verifyIdToken('local-test', await idToken(), 'nonce-1');
+
+    expect(profile).toMatchObject({
+      id: 'subject-1',
+      email: 'owner@example.com',
+      name: 'Ada Owner',
+      verified_email: true
+    });
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const token = await idToken({}, { issuer: 'https://attacker.example.test' });
+    await expect(oidcService.verifyIdToken('local-test', token)).rejects.toThrow('Invalid local-test sign-in token');
+  });
+
+  it('rejects a token meant for another client', async () => {
+    const token = await idToken({}, { audience: 'someone-else' });
+    await expect(oidcService.verifyIdToken('local-test', token)).rejects.toThrow('Invalid local-test sign-in token');
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await idToken({}, { expiresAt: Math.floor(Date.now() / 1000) - 60 });
+    await expect(oidcService.verifyIdToken('local-test', token)).rejects.toThrow('Invalid local-test sign-in token');
+  });
+
+  it('rejects a token signed with a key the issuer does not publish', async () => {
+    const { privateKey } = await generateKeyPair('RS256');
+    const token = await idToken({}, { kid: 'key-unknown', key: privateKey });
+    await expect(oidcService.verifyIdToken('local-test', token)).rejects.toThrow('Invalid local-test sign-in token');
+  });
+
+  it('rejects a token whose nonce does not match the request', async () => {
+    await expect(oidcService.verifyIdToken('local-test', await idToken(), 'nonce-2')).rejects.toThrow('Invalid local-test sign-in token');
+    await expect(oidcService.verifyIdToken('local-test', await idToken({ nonce: undefined }), 'nonce-1'))
+      .rejects.toThrow('Invalid local-test sign-in token');
+  });
+
+  it('rejects providers that are not configured', async () => {
+    await expect(oidcService.verifyIdToken('unknown', await idToken())).rejects.toThrow('Sign-in provider "unknown" is not supported');
+  });
+});
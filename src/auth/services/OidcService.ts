@@ -0,0 +1,92 @@
+import { createRemoteJWKSet, jwtVerify, errors as joseErrors, JWTPayload } from 'jose';
+import { config, OidcProviderConfig } from '@/config';
+import { OAuthProfile } from '../types/auth';
+import { BadRequestError, UnauthorizedError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+
+// Remote key sets cache and refresh themselves, so keep one per provider for the process
+const keySets = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+export class OidcService {
+  // Names of the providers configured for sign-in
+  listProviders(): string[] {
+    return config.oidc.providers.map((provider) => provider.name);
+  }
+
+  isConfigured(providerName: string): boolean {
+    return config.oidc.providers.some((provider) => provider.name === providerName);
+  }
+
+  // Verify an ID token from a configured provider and map its claims to a profile
+  async verifyIdToken(providerName: string, idToken: string, nonce?: string): Promise<OAuthProfile> {
+    const provider = this.getProvider(providerName);
+
+    let claims: JWTPayload;
+    try {
+      const { payload } = await jwtVerify(idToken, this.getKeySet(provider), {
+        issuer: provider.issuer,
+        audience: provider.clientId
+      });
+      claims = payload;
+    } catch (error) {
+      logger.error(`OIDC token verification failed for ${provider.name}:`, error);
+      if (error instanceof joseErrors.JOSEError) {
+        throw new UnauthorizedError(`Invalid ${provider.name} sign-in token`);
+      }
+      throw error;
+    }
+
+    // A nonce the client sent with the auth request must come back unchanged
+    if (nonce && claims.nonce !== nonce) {
+      throw new UnauthorizedError(`Invalid ${provider.name} sign-in token`);
+    }
+
+    const profile = this.mapProfile(provider, claims);
+    logger.info(`OIDC verification successful for ${provider.name}: ${profile.email}`);
+    return profile;
+  }
+
+  private getProvider(providerName: string): OidcProviderConfig {
+    const provider = config.oidc.providers.find((candidate) => candidate.name === providerName);
+    if (!provider) {
+      throw new BadRequestError(`Sign-in provider "${providerName}" is not supported`);
+    }
+    return provider;
+  }
+
+  private getKeySet(provider: OidcProviderConfig): ReturnType<typeof createRemoteJWKSet> {
+    let keySet = keySets.get(provider.name);
+    if (!keySet) {
+      keySet = createRemoteJWKSet(new URL(provider.jwksUri));
+      keySets.set(provider.name, keySet);
+    }
+    return keySet;
+  }
+
+  private mapProfile(provider: OidcProviderConfig, claims: JWTPayload): OAuthProfile {
+    const claim = (name: string): string | undefined => {
+      const value = claims[name];
+      return value === undefined || value === null ? undefined : String(value);
+    };
+
+    const id = claim(provider.claims.subject);
+    const email = claim(provider.claims.email);
+    if (!id || !email) {
+      throw new BadRequestError(`${provider.name} did not share an account id and email address`);
+    }
+
+    const givenName = claim(provider.claims.givenName);
+    const familyName = claim(provider.claims.familyName);
+
+    return {
+      id,
+      email: email.toLowerCase(),
+      name: claim(provider.claims.name) || [givenName, familyName].filter(Boolean).join(' '),
+      given_name: givenName,
+      family_name: familyName,
+      picture: claim(provider.claims.picture),
+      // Some providers (Apple) send booleans as strings
+      verified_email: claim(provider.claims.emailVerified) === 'true'
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { RegistrationEvent, RegistrationEventSummary, RegistrationEventType, RegistrationSource } from '../models/RegistrationEvent';
+import { RegistrationFlowService } from './RegistrationFlowService';
+
+export interface FunnelStage {
+  key: string;
+  title: string;
+  sessions: number;
+  // Share of started sessions that reached this stage
+  conversionRate: number;
+  medianSecondsFromPreviousStage: number | null;
+}
+
+export interface RegistrationFunnel {
+  from: Date;
+  to: Date;
+  source: RegistrationSource | null;
+  started: number;
+  completed: number;
+  conversionRate: number;
+  stages: FunnelStage[];
+  // Sessions that expired, by the step they were on
+  dropOff: { key: string; sessions: number }[];
+}
+
+// Funnel reporting over recorded registration events; the aggregation itself runs in SQL
+export class RegistrationAnalyticsService {
+  private registrationFlowService: RegistrationFlowService;
+
+  constructor() {
+    this.registrationFlowService = new RegistrationFlowService();
+  }
+
+  async getFunnel(from: Date, to: Date, source?: RegistrationSource): Promise<RegistrationFunnel> {
+    const steps = this.registrationFlowService.describeSteps();
+    const laterSteps = steps.filter((step) => step.key !== 'email');
+    const summaries = await RegistrationEvent.summarize(from, to, laterSteps.map((step) => step.step), source);
+
+    const find = (event: RegistrationEventType, step: number = 0): RegistrationEventSummary | undefined =>
+      summaries.find((summary) => summary.event === event && summary.step === step);
+
+    // Funnel order: started, verified, each later step in flow order, completed
+    const stageEvents: { key: string; title: string; summary?: RegistrationEventSummary }[] = [
+      { key: 'started', title: 'Started', summary: find('started') },
+      { key: 'email', title: 'Email verification', summary: find('verified') },
+      ...laterSteps.map((step) => ({ key: step.key, title: step.title, summary: find('step_completed', step.step) })),
+      { key: 'completed', title: 'Completed', summary: find('completed') }
+    ];
+
+    const started = find('started')?.sessions || 0;
+    const completed = find('completed')?.sessions || 0;
+
+    return {
+      from,
+      to,
+      source: source || null,
+      started,
+      completed,
+      conversionRate: this.rate(completed, started),
+      stages: stageEvents.map(({ key, title, summary }) => ({
+        key,
+        title,
+        sessions: summary?.sessions || 0,
+        conversionRate: this.rate(summary?.sessions || 0, started),
+        medianSecondsFromPreviousStage: summary?.medianSeconds ?? null
+      })),
+      dropOff: summaries
+        .filter((summary) => summary.event === 'expired')
+        .map((summary) => ({
+          key: steps.find((step) => step.step === summary.step)?.key || String(summary.step),
+          sessions: summary.sessions
+        }))
+        .sort((a, b) => b.sessions - a.sessions)
+    };
+  }
+
+  private rate(count: number, total: number): number {
+    return total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+  }
+}
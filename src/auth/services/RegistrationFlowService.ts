@@ -0,0 +1,474 @@
+import Joi from 'joi';
+import { RegistrationSession } from '../models/RegistrationSession';
+import { User } from '../models/User';
+import { UserIdentity } from '../models/UserIdentity';
+import { RegistrationEvent } from '../models/RegistrationEvent';
+import { AuthService } from './AuthService';
+import { EmailService } from './EmailService';
+import {
+  RegistrationStep,
+  RegistrationStepData,
+  BusinessTypeOption,
+  FulfilmentMethod,
+  PersonalInfoStepData,
+  SessionContext
+} from '../types/auth';
+import { BadRequestError, NotFoundError, ValidationError } from '@/utils/AppError';
+import { getDatabase } from '@/database/connection';
+import { logger } from '@/utils/logger';
+
+// What a step saves, plus anything to echo back to the client
+interface StepResult {
+  data: any;
+  response?: Record<string, any>;
+}
+
+export interface RegistrationStepDefinition {
+  step: RegistrationStep;
+  // URL segment for POST /registration/steps/:step
+  key: string;
+  title: string;
+  // Only shown to these business types; every business gets the step when unset
+  businessTypes?: BusinessTypeOption[];
+  // Input for the generic step endpoint; steps without one are driven by dedicated endpoints
+  schema?: Joi.ObjectSchema;
+  // Steps that must be complete before this one can be submitted (ignored when they don't apply)
+  requires: RegistrationStep[];
+  // Whether the session's saved data satisfies the step
+  isComplete(session: RegistrationSession): boolean;
+  // Turn validated input into the saved step data (defaults to saving it as-is)
+  persist?(session: RegistrationSession, value: any): Promise<StepResult>;
+  // Turn saved data back into input, so an edit can send only the fields that change
+  toInput?(data: any): any;
+  // Submitting this step finishes the registration
+  completesRegistration?: boolean;
+}
+
+// Submitting fills in a step; editing changes one that already has data
+export type StepSubmissionMode = 'submit' | 'edit';
+
+export interface StepSubmission {
+  message: string;
+  currentStep: RegistrationStep;
+  response: Record<string, any>;
+  // Set once the final step created the account
+  registration?: { user: any; tokens: any };
+}
+
+// A step rejected its input; details (e.g. shop URL suggestions) go back to the client
+export class RegistrationStepError extends BadRequestError {
+  constructor(message: string, public readonly details: Record<string, any> = {}) {
+    super(message);
+  }
+}
+
+// Auto-generated shop URLs to try before asking the user to pick one
+const SHOP_URL_RESERVATION_ATTEMPTS = 3;
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const stepDataOf = <K extends keyof RegistrationStepData>(session: RegistrationSession, key: K): RegistrationStepData[K] =>
+  session.stepData[key];
+
+// The registration flow, in order. Adding a step means adding an entry here (and its RegistrationStep value).
+const REGISTRATION_STEPS: RegistrationStepDefinition[] = [
+  {
+    step: RegistrationStep.EMAIL_INPUT,
+    key: 'email',
+    title: 'Email verification',
+    requires: [],
+    // Started by /registration/start (or a provider) and finished by the link or code
+    isComplete: (session) => !!stepDataOf(session, 'step1')?.email && session.emailVerified
+  },
+  {
+    step: RegistrationStep.PERSONAL_INFO,
+    key: 'personal-info',
+    title: 'Personal information',
+    schema: Joi.object({
+      firstName: Joi.string().min(2).max(50).required(),
+      lastName: Joi.string().min(2).max(50).required(),
+      password: Joi.string().min(8).pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d)(?=.*[@$!%*?&])[A-Za-z\\d@$!%*?&]')).when('$isOAuth', {
+        is: false,
+        then: Joi.required(),
+        otherwise: Joi.optional()
+      })
+    }),
+    requires: [RegistrationStep.EMAIL_INPUT],
+    isComplete: (session) => {
+      const data = stepDataOf(session, 'step2');
+      return !!(data?.firstName && data.lastName && (data.password || session.oauthProvider));
+    }
+  },
+  {
+    step: RegistrationStep.BUSINESS_TYPE,
+    key: 'business-type',
+    title: 'Business type',
+    schema: Joi.object({
+      businessType: Joi.string().valid(...Object.values(BusinessTypeOption)).required()
+    }),
+    requires: [RegistrationStep.PERSONAL_INFO],
+    isComplete: (session) => !!stepDataOf(session, 'step3')?.businessType
+  },
+  {
+    step: RegistrationStep.SERVICE_DETAILS,
+    key: 'service-details',
+    title: 'Services offered & availability',
+    businessTypes: [BusinessTypeOption.SERVICES, BusinessTypeOption.BOTH],
+    schema: Joi.object({
+      services: Joi.array().items(Joi.string().trim().min(2).max(100)).min(1).max(20).unique().required(),
+      availability: Joi.object({
+        days: Joi.array().items(Joi.string().valid(...WEEKDAYS)).min(1).unique().required(),
+        opensAt: Joi.string().pattern(TIME_OF_DAY).required(),
+        closesAt: Joi.string().pattern(TIME_OF_DAY).required()
+      }).required()
+    }),
+    requires: [RegistrationStep.BUSINESS_TYPE],
+    isComplete: (session) => {
+      const data = stepDataOf(session, 'step7');
+      return !!(data?.services?.length && data.availability?.days?.length);
+    }
+  },
+  {
+    step: RegistrationStep.PRODUCT_DETAILS,
+    key: 'product-details',
+    title: 'Product categories & fulfilment',
+    businessTypes: [BusinessTypeOption.PRODUCTS, BusinessTypeOption.BOTH],
+    schema: Joi.object({
+      categories: Joi.array().items(Joi.string().trim().min(2).max(100)).min(1).max(20).unique().required(),
+      fulfilmentMethods: Joi.array().items(Joi.string().valid(...Object.values(FulfilmentMethod))).min(1).unique().required()
+    }),
+    requires: [RegistrationStep.BUSINESS_TYPE],
+    isComplete: (session) => {
+      const data = stepDataOf(session, 'step8');
+      return !!(data?.categories?.length && data.fulfilmentMethods?.length);
+    }
+  },
+  {
+    step: RegistrationStep.SHOP_DETAILS,
+    key: 'shop-details',
+    title: 'Shop details',
+    schema: Joi.object({
+      businessName: Joi.string().min(2).max(100).required(),
+      businessDescription: Joi.string().min(10).max(500).required(),
+      customShopUrl: Joi.string().pattern(/^[a-z0-9-]+\.celm\.com$/).optional()
+    }),
+    requires: [RegistrationStep.BUSINESS_TYPE, RegistrationStep.SERVICE_DETAILS, RegistrationStep.PRODUCT_DETAILS],
+    isComplete: (session) => {
+      const data = stepDataOf(session, 'step4');
+      return !!(data?.businessName && data.businessDescription && data.shopUrl);
+    },
+    persist: async (session, { businessName, businessDescription, customShopUrl }) => {
+      let shopUrl: string;
+      let reservedUntil: Date | null;
+
+      if (customShopUrl) {
+        if (!RegistrationSession.validateShopUrlFormat(customShopUrl)) {
+          throw new RegistrationStepError('Invalid shop URL format. Use only letters, numbers, and hyphens.', {
+            suggestions: await RegistrationSession.getShopUrlSuggestions(businessName, 5, session.id)
+          });
+        }
+
+        // Reserving is the availability check, so two registrations can't both get the URL
+        reservedUntil = await session.reserveShopUrl(customShopUrl);
+        if (!reservedUntil) {
+          throw new RegistrationStepError('Shop URL is already taken', {
+            suggestions: await RegistrationSession.getShopUrlSuggestions(businessName, 5, session.id)
+          });
+        }
+
+        shopUrl = customShopUrl;
+      } else {
+        // Auto-generate unique URL, trying again if another registration reserves it first
+        shopUrl = await RegistrationSession.generateUniqueShopUrl(businessName, session.id);
+        reservedUntil = await session.reserveShopUrl(shopUrl);
+        for (let attempt = 1; !reservedUntil; attempt++) {
+          if (attempt >= SHOP_URL_RESERVATION_ATTEMPTS) {
+            throw new RegistrationStepError('Could not reserve a shop URL, please choose one', {
+              suggestions: await RegistrationSession.getShopUrlSuggestions(businessName, 5, session.id)
+            });
+          }
+          shopUrl = await RegistrationSession.generateUniqueShopUrl(businessName, session.id);
+          reservedUntil = await session.reserveShopUrl(shopUrl);
+        }
+      }
+
+      return {
+        data: { businessName, businessDescription, shopUrl },
+        response: {
+          shopUrl,
+          shopUrlReservedUntil: reservedUntil,
+          suggestions: await RegistrationSession.getShopUrlSuggestions(businessName, 5, session.id)
+        }
+      };
+    },
+    // Keep the chosen URL when an edit doesn't send one
+    toInput: ({ shopUrl, ...details }) => ({ ...details, customShopUrl: shopUrl })
+  },
+  {
+    step: RegistrationStep.LOCATION,
+    key: 'location',
+    title: 'Location',
+    schema: Joi.object({
+      country: Joi.string().min(2).max(100).required(),
+      state: Joi.string().min(2).max(100).required(),
+      localGovernment: Joi.string().min(2).max(100).required(),
+      address: Joi.string().min(5).max(255).required()
+    }),
+    requires: [RegistrationStep.SHOP_DETAILS],
+    isComplete: (session) => {
+      const data = stepDataOf(session, 'step5');
+      return !!(data?.country && data.state && data.localGovernment && data.address);
+    },
+    completesRegistration: true
+  }
+];
+
+export class RegistrationFlowService {
+  private authService: AuthService;
+  private emailService: EmailService;
+
+  constructor() {
+    this.authService = new AuthService();
+    this.emailService = new EmailService();
+  }
+
+  // The flow as clients see it: steps, their order, prerequisites and accepted fields
+  describeSteps(): any[] {
+    return REGISTRATION_STEPS.map((definition) => ({
+      step: definition.step,
+      key: definition.key,
+      title: definition.title,
+      businessTypes: definition.businessTypes || Object.values(BusinessTypeOption),
+      requires: definition.requires.map((step) => this.getDefinition(step).key),
+      submittable: !!definition.schema,
+      fields: definition.schema ? this.describeFields(definition.schema) : [],
+      completesRegistration: !!definition.completesRegistration
+    }));
+  }
+
+  getStep(key: string): RegistrationStepDefinition {
+    const definition = REGISTRATION_STEPS.find((candidate) => candidate.key === key);
+    if (!definition) {
+      throw new NotFoundError(`Unknown registration step "${key}"`);
+    }
+    return definition;
+  }
+
+  // Steps this session goes through; business-type specific steps appear once a type is chosen
+  applicableSteps(session: RegistrationSession): RegistrationStepDefinition[] {
+    return REGISTRATION_STEPS.filter((definition) => this.applies(session, definition));
+  }
+
+  isComplete(session: RegistrationSession): boolean {
+    return this.applicableSteps(session).every((definition) => definition.isComplete(session));
+  }
+
+  // The first step still missing data, or COMPLETE
+  nextStep(session: RegistrationSession): RegistrationStep {
+    const pending = this.applicableSteps(session).find((definition) => !definition.isComplete(session));
+    return pending ? pending.step : RegistrationStep.COMPLETE;
+  }
+
+  // 1-based position of the current step in this session's flow, for "step X of Y"
+  stepNumber(session: RegistrationSession): number {
+    const steps = this.applicableSteps(session);
+    const index = steps.findIndex((definition) => definition.step === session.currentStep);
+    return index === -1 ? steps.length : index + 1;
+  }
+
+  // Saved answers for a step, for going back to it (never the password)
+  getStepData(session: RegistrationSession, key: string): any {
+    const definition = this.getStep(key);
+    const saved = session.stepData[`step${definition.step}` as keyof RegistrationStepData];
+    if (!saved) {
+      throw new NotFoundError(`The ${definition.title.toLowerCase()} step has no saved answers yet`);
+    }
+
+    const { password, ...data } = saved as any;
+    return {
+      step: definition.step,
+      key: definition.key,
+      title: definition.title,
+      applies: this.applies(session, definition),
+      completed: definition.isComplete(session),
+      data
+    };
+  }
+
+  // Validate, save and run side effects for one step; later steps keep their data unless the change makes them not apply
+  async submitStep(
+    session: RegistrationSession,
+    key: string,
+    input: any,
+    context: SessionContext = {},
+    mode: StepSubmissionMode = 'submit'
+  ): Promise<StepSubmission> {
+    const definition = this.getStep(key);
+    const stepKey = `step${definition.step}` as keyof RegistrationStepData;
+    const previous = session.stepData[stepKey];
+    if (!definition.schema) {
+      throw new BadRequestError(`The ${definition.title.toLowerCase()} step can't be submitted directly`);
+    }
+
+    if (!this.applies(session, definition)) {
+      throw new BadRequestError(`The ${definition.title.toLowerCase()} step doesn't apply to your business type`);
+    }
+
+    const missing = definition.requires
+      .map((step) => this.getDefinition(step))
+      .filter((required) => this.applies(session, required) && !required.isComplete(session));
+    if (missing.length > 0) {
+      throw new BadRequestError('Please complete previous steps first');
+    }
+
+    if (mode === 'edit') {
+      if (!previous) {
+        throw new BadRequestError(`The ${definition.title.toLowerCase()} step hasn't been completed yet`);
+      }
+      input = { ...(definition.toInput ? definition.toInput(previous) : previous), ...input };
+    }
+
+    const { error, value } = definition.schema.validate(input, {
+      context: { isOAuth: !!session.oauthProvider }
+    });
+    if (error) {
+      throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+    }
+
+    const result = definition.persist ? await definition.persist(session, value) : { data: value };
+
+    session.stepData[stepKey] = result.data;
+    session.recordStepEvent(definition.step, previous ? 'edited' : 'submitted');
+    this.dropInapplicableSteps(session);
+    session.currentStep = this.nextStep(session);
+    session.totalSteps = this.applicableSteps(session).length;
+    session.slideExpiry();
+    await session.save();
+
+    if (definition.isComplete(session)) {
+      await RegistrationEvent.record(session, 'step_completed', definition.step);
+    }
+
+    if (definition.completesRegistration) {
+      if (!this.isComplete(session)) {
+        throw new BadRequestError('Please complete previous steps first');
+      }
+
+      const registration = await this.completeRegistration(session, context);
+      await RegistrationEvent.record(session, 'completed');
+      return {
+        message: 'Registration completed successfully! Welcome to Celm!',
+        currentStep: RegistrationStep.COMPLETE,
+        response: result.response || {},
+        registration
+      };
+    }
+
+    return {
+      message: `${definition.title} saved`,
+      currentStep: session.currentStep,
+      response: result.response || {}
+    };
+  }
+
+  // Forget answers for steps the session no longer goes through (e.g. after changing business type)
+  private dropInapplicableSteps(session: RegistrationSession): void {
+    for (const definition of REGISTRATION_STEPS) {
+      const stepKey = `step${definition.step}` as keyof RegistrationStepData;
+      if (session.stepData[stepKey] && !this.applies(session, definition)) {
+        delete session.stepData[stepKey];
+        session.recordStepEvent(definition.step, 'invalidated');
+      }
+    }
+  }
+
+  private applies(session: RegistrationSession, definition: RegistrationStepDefinition): boolean {
+    if (!definition.businessTypes) {
+      return true;
+    }
+
+    const businessType = session.stepData.step3?.businessType;
+    return !!businessType && definition.businessTypes.includes(businessType);
+  }
+
+  private getDefinition(step: RegistrationStep): RegistrationStepDefinition {
+    return REGISTRATION_STEPS.find((definition) => definition.step === step)!;
+  }
+
+  private describeFields(schema: Joi.ObjectSchema): { name: string; type: string; required: boolean }[] {
+    const keys = schema.describe().keys || {};
+    return Object.entries(keys).map(([name, field]: [string, any]) => ({
+      name,
+      type: field.type,
+      required: field.flags?.presence === 'required'
+    }));
+  }
+
+  // Create the user from the session's step data
+  private async completeRegistration(session: RegistrationSession, context: SessionContext): Promise<{ user: any; tokens: any }> {
+    const db = getDatabase();
+    const personalInfo = session.stepData.step2 as PersonalInfoStepData;
+    const { shopUrl, businessName } = session.stepData.step4!;
+
+    // Holding the reservation again covers one that lapsed; the user row then owns the URL
+    if (!await session.reserveShopUrl(shopUrl)) {
+      throw new RegistrationStepError('Your shop URL has been taken since it was reserved. Please choose another one.', {
+        suggestions: await RegistrationSession.getShopUrlSuggestions(businessName, 5, session.id)
+      });
+    }
+
+    // Only the account rows are written in the transaction; everything else waits for the commit
+    const savedUser = await db.transaction(async (trx) => {
+      // Create user with business data embedded
+      const userData = {
+        email: session.email,
+        firstName: personalInfo.firstName,
+        lastName: personalInfo.lastName,
+        password: personalInfo.password,
+        shopUrl: session.stepData.step4!.shopUrl,
+        businessName: session.stepData.step4!.businessName,
+        businessDescription: session.stepData.step4!.businessDescription,
+        businessType: session.stepData.step3!.businessType,
+        location: session.stepData.step5!,
+        serviceDetails: session.stepData.step7,
+        productDetails: session.stepData.step8,
+        isActive: true,
+        emailVerified: true
+      };
+
+      const user = await new User(userData).saveWithTransaction(trx);
+
+      // OAuth sign-ups keep their provider account as a linked identity
+      if (session.oauthProvider && session.oauthId) {
+        await UserIdentity.create({
+          userId: user.id,
+          provider: session.oauthProvider,
+          providerUserId: session.oauthId,
+          email: session.email
+        }, trx);
+        user.linkedProviders = [session.oauthProvider];
+      }
+
+      return user;
+    });
+
+    // The committed user row now holds the shop URL, so the session and its reservation can go
+    await session.delete();
+
+    const tokens = await this.authService.generateTokens(savedUser, context);
+
+    try {
+      await this.emailService.sendWelcomeEmail(savedUser.email, savedUser.firstName);
+    } catch (error) {
+      logger.error('Failed to send welcome email:', error);
+    }
+
+    logger.info(`Registration completed for email: ${savedUser.email}`);
+
+    return {
+      user: savedUser.toSafeJSON(),
+      tokens
+    };
+  }
+}
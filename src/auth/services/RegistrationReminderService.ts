@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+import { getDatabase } from '@/database/connection';
+import { RegistrationSession } from '../models/RegistrationSession';
+import { EmailService } from './EmailService';
+import { RegistrationFlowService } from './RegistrationFlowService';
+import { logger } from '@/utils/logger';
+
+// "Finish setting up your shop" emails for idle registrations, and the opt-out list they honour
+export class RegistrationReminderService {
+  private emailService: EmailService;
+  private registrationFlowService: RegistrationFlowService;
+
+  constructor() {
+    this.emailService = new EmailService();
+    this.registrationFlowService = new RegistrationFlowService();
+  }
+
+  // Remind sessions that have been idle long enough; returns how many reminders were sent
+  async sendDueReminders(): Promise<number> {
+    const { idleMinutes, maxPerSession, batchSize } = config.registration.reminders;
+    const idleSince = new Date(Date.now() - idleMinutes * 60 * 1000);
+
+    const sessions = await RegistrationSession.findDueForReminder(idleSince, maxPerSession, batchSize);
+    const optedOut = await this.findOptedOut(sessions.map((session) => session.email));
+
+    let sent = 0;
+    for (const session of sessions) {
+      if (!optedOut.has(session.email.toLowerCase()) && await this.remind(session)) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  // Unsubscribe tokens are signed rather than stored, so links keep working after the session is gone
+  createUnsubscribeToken(email: string): string {
+    const payload = Buffer.from(email.toLowerCase()).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  // Stop reminders to the token's email address; false when the token doesn't verify
+  async unsubscribe(token: string): Promise<boolean> {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return false;
+    }
+
+    const email = Buffer.from(payload, 'base64url').toString('utf8');
+    const db = getDatabase();
+    await db('registration_reminder_opt_outs')
+      .insert({ email, created_at: new Date() })
+      .onConflict('email')
+      .ignore();
+
+    logger.info(`Registration reminders unsubscribed for email: ${email}`);
+    return true;
+  }
+
+  private async findOptedOut(emails: string[]): Promise<Set<string>> {
+    if (emails.length === 0) return new Set();
+
+    const db = getDatabase();
+    const optedOut: string[] = await db('registration_reminder_opt_outs')
+      .whereIn('email', emails.map((email) => email.toLowerCase()))
+      .pluck('email');
+
+    return new Set(optedOut);
+  }
+
+  private async remind(session: RegistrationSession): Promise<boolean> {
+    // Claiming first means overlapping runs can't both email the same session
+    if (!await session.claimReminder()) {
+      return false;
+    }
+
+    try {
+      // The link lasts as long as the session it resumes
+      const expiresInMinutes = Math.max(1, Math.floor((session.expiresAt.getTime() - Date.now()) / (60 * 1000)));
+      const resumeToken = await session.createResumeToken(expiresInMinutes);
+
+      await this.emailService.sendRegistrationReminderEmail(
+        session.email,
+        resumeToken,
+        this.createUnsubscribeToken(session.email),
+        this.registrationFlowService.stepNumber(session),
+        session.totalSteps,
+        expiresInMinutes
+      );
+      return true;
+    } catch (error) {
+      // The claim stands, so a failing address isn't retried on every run
+      logger.error(`Failed to send registration reminder for email ${session.email}:`, error);
+      return false;
+    }
+  }
+
+  private sign(payload: string): string {
+    return crypto
+      .createHmac('sha256', config.security.sessionSecret)
+      .update(`registration-reminder-unsubscribe:${payload}`)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,50 @@
+import { TokenDenylistService } from './TokenDenylistService';
+import { FakeRedisService, resetFakeRedis } from '@/test/fakeRedis';
+
+jest.mock('@/database/redis', () => jest.requireActual('@/test/fakeRedis').fakeRedisModule());
+
+describe('TokenDenylistService', () => {
+  const denylist = new TokenDenylistService();
+
+  beforeEach(() => {
+    resetFakeRedis();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('denies a user\'s tokens issued before the revocation, to the millisecond', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T12:00:00.750Z') });
+    const revokedAt = Date.now();
+
+    await denylist.denyAllForUser('user-1', 60);
+
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: revokedAt - 1 })).resolves.toBe(true);
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: revokedAt })).resolves.toBe(false);
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: revokedAt + 100 })).resolves.toBe(false);
+    await expect(denylist.isDenied({ userId: 'user-2', iat_ms: revokedAt - 1 })).resolves.toBe(false);
+
+    // Without iat_ms a token counts from the start of its second
+    await expect(denylist.isDenied({ userId: 'user-1', iat: Math.floor(revokedAt / 1000) })).resolves.toBe(true);
+  });
+
+  it('still honours user-wide revocations stored in seconds before the switch to milliseconds', async () => {
+    const revokedAtSeconds = Math.floor(new Date('2026-01-01T12:00:00Z').getTime() / 1000);
+    await new FakeRedisService().set('auth:denylist:user:user-1', revokedAtSeconds.toString(), 60);
+
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: revokedAtSeconds * 1000 - 1 })).resolves.toBe(true);
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: revokedAtSeconds * 1000 + 999 })).resolves.toBe(true);
+    await expect(denylist.isDenied({ userId: 'user-1', iat_ms: (revokedAtSeconds + 1) * 1000 })).resolves.toBe(false);
+    await expect(denylist.isDenied({ userId: 'user-1', iat: revokedAtSeconds })).resolves.toBe(true);
+  });
+
+  it('denies single tokens and whole sessions', async () => {
+    await denylist.denyToken('jti-1', 60);
+    await denylist.denySession('session-1', 60);
+
+    await expect(denylist.isDenied({ userId: 'user-1', jti: 'jti-1' })).resolves.toBe(true);
+    await expect(denylist.isDenied({ userId: 'user-1', jti: 'jti-2', sessionId: 'session-1' })).resolves.toBe(true);
+    await expect(denylist.isDenied({ userId: 'user-1', jti: 'jti-2', sessionId: 'session-2' })).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { getOptionalRedisService } from '@/database/redis';
+import { logger } from '@/utils/logger';
+
+const KEY_PREFIX = 'auth:denylist';
+
+export interface DenylistCheck {
+  userId: string;
+  jti?: string;
+  sessionId?: string;
+  iat?: number;
+  iat_ms?: number;
+}
+
+// Redis-backed access token denylist. Entries expire with the tokens they cover.
+// When Redis is unavailable revocations are skipped and checks pass, so auth keeps working.
+export class TokenDenylistService {
+  // Deny a single access token until it expires
+  async denyToken(jti: string, ttlSeconds: number): Promise<void> {
+    await this.write(`${KEY_PREFIX}:jti:${jti}`, '1', ttlSeconds);
+  }
+
+  // Deny every access token issued for a session (refresh token family)
+  async denySession(sessionId: string, ttlSeconds: number): Promise<void> {
+    await this.write(`${KEY_PREFIX}:session:${sessionId}`, '1', ttlSeconds);
+  }
+
+  // Deny every access token issued to a user before now (milliseconds)
+  async denyAllForUser(userId: string, ttlSeconds: number): Promise<void> {
+    await this.write(`${KEY_PREFIX}:user-ms:${userId}`, Date.now().toString(), ttlSeconds);
+  }
+
+  // Check whether an access token has been revoked
+  async isDenied(check: DenylistCheck): Promise<boolean> {
+    const redis = getOptionalRedisService();
+    if (!redis) {
+      return false;
+    }
+
+    const [tokenDenied, sessionDenied, userRevokedAtMs, legacyUserRevokedAt] = await Promise.all([
+      check.jti ? redis.exists(`${KEY_PREFIX}:jti:${check.jti}`) : Promise.resolve(false),
+      check.sessionId ? redis.exists(`${KEY_PREFIX}:session:${check.sessionId}`) : Promise.resolve(false),
+      redis.get(`${KEY_PREFIX}:user-ms:${check.userId}`),
+      redis.get(`${KEY_PREFIX}:user:${check.userId}`)
+    ]);
+
+    if (tokenDenied || sessionDenied) {
+      return true;
+    }
+
+    // Tokens signed before iat_ms existed fall back to the start of their iat second
+    const issuedAtMs = check.iat_ms ?? (check.iat ?? 0) * 1000;
+    if (userRevokedAtMs && issuedAtMs < parseInt(userRevokedAtMs)) {
+      return true;
+    }
+
+    // Revocations written before they were kept in milliseconds hold seconds and covered their whole
+    // second; they lapse with the access tokens they cover
+    return !!legacyUserRevokedAt && issuedAtMs < (parseInt(legacyUserRevokedAt) + 1) * 1000;
+  }
+
+  private async write(key: string, value: string, ttlSeconds: number): Promise<void> {
+    const redis = getOptionalRedisService();
+    if (!redis) {
+      logger.warn(`Redis unavailable - access token revocation not recorded for ${key}`);
+      return;
+    }
+
+    await redis.set(key, value, Math.max(1, Math.ceil(ttlSeconds)));
+  }
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { KeyObject } from 'crypto';
+import { SignJWT, jwtVerify, exportJWK, errors as joseErrors, JWK, JWTPayload as JoseJWTPayload, JWTHeaderParameters } from 'jose';
+import { config, JwtSigningAlgorithm } from '@/config';
+import { AppError, UnauthorizedError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+
+export const TOKEN_ISSUER = 'celm-api';
+export const TOKEN_AUDIENCE = 'celm-app';
+
+interface SigningKey {
+  kid: string;
+  publicKey: KeyObject;
+  privateKey?: KeyObject;
+}
+
+export interface SignOptions {
+  subject: string;
+  expiresIn: string;
+  jwtId: string;
+}
+
+// Key type each asymmetric algorithm requires
+const KEY_TYPES: Record<Exclude<JwtSigningAlgorithm, 'HS256'>, string> = {
+  RS256: 'rsa',
+  EdDSA: 'ed25519'
+};
+
+// Loaded once per process and shared by every AuthService instance
+let keyRing: Map<string, SigningKey> | null = null;
+
+export class TokenKeyService {
+  private readonly algorithm: JwtSigningAlgorithm;
+
+  constructor() {
+    this.algorithm = config.jwt.algorithm;
+  }
+
+  // Sign an access token with the active key
+  async sign(payload: object, options: SignOptions): Promise<string> {
+    const jwt = new SignJWT({ ...payload })
+      .setIssuedAt()
+      .setIssuer(TOKEN_ISSUER)
+      .setAudience(TOKEN_AUDIENCE)
+      .setSubject(options.subject)
+      .setJti(options.jwtId)
+      .setExpirationTime(options.expiresIn);
+
+    if (this.algorithm === 'HS256') {
+      return jwt.setProtectedHeader({ alg: 'HS256', typ: 'JWT' }).sign(this.getSecret());
+    }
+
+    const activeKey = this.getKeyRing().get(config.jwt.activeKeyId);
+    if (!activeKey?.privateKey) {
+      throw new AppError(`Active JWT signing key "${config.jwt.activeKeyId}" has no private key`, 500);
+    }
+
+    return jwt
+      .setProtectedHeader({ alg: this.algorithm, typ: 'JWT', kid: activeKey.kid })
+      .sign(activeKey.privateKey);
+  }
+
+  // Verify an access token against any published key
+  async verify<T extends object>(token: string): Promise<T & JoseJWTPayload> {
+    try {
+      const options = {
+        issuer: TOKEN_ISSUER,
+        audience: TOKEN_AUDIENCE,
+        algorithms: [this.algorithm]
+      };
+
+      const { payload } = this.algorithm === 'HS256'
+        ? await jwtVerify(token, this.getSecret(), options)
+        : await jwtVerify(token, (header: JWTHeaderParameters) => this.resolveVerificationKey(header), options);
+
+      return payload as T & JoseJWTPayload;
+    } catch (error) {
+      if (error instanceof joseErrors.JWTExpired) {
+        throw new UnauthorizedError('Access token expired');
+      }
+      if (error instanceof joseErrors.JOSEError) {
+        throw new UnauthorizedError('Invalid access token');
+      }
+      throw error;
+    }
+  }
+
+  // Public keys in JWKS format for other services to verify access tokens
+  async getJwks(): Promise<{ keys: JWK[] }> {
+    if (this.algorithm === 'HS256') {
+      return { keys: [] };
+    }
+
+    const keys: JWK[] = [];
+    for (const key of this.getKeyRing().values()) {
+      const jwk = await exportJWK(key.publicKey);
+      keys.push({ ...jwk, kid: key.kid, alg: this.algorithm, use: 'sig' });
+    }
+
+    return { keys };
+  }
+
+  private resolveVerificationKey(header: JWTHeaderParameters): KeyObject {
+    const key = header.kid ? this.getKeyRing().get(header.kid) : undefined;
+    if (!key) {
+      throw new joseErrors.JWKSNoMatchingKey();
+    }
+    return key.publicKey;
+  }
+
+  private getSecret(): Uint8Array {
+    return new TextEncoder().encode(config.jwt.secret);
+  }
+
+  // Load every key from the keys directory; "<kid>.pem" private keys sign, "<kid>.pub.pem" only verify
+  private getKeyRing(): Map<string, SigningKey> {
+    if (keyRing) {
+      return keyRing;
+    }
+
+    const algorithm = this.algorithm as Exclude<JwtSigningAlgorithm, 'HS256'>;
+    const keysDir = path.resolve(config.jwt.keysDir);
+    const loaded = new Map<string, SigningKey>();
+
+    if (!fs.existsSync(keysDir)) {
+      throw new AppError(`JWT keys directory not found: ${keysDir}`, 500);
+    }
+
+    for (const file of fs.readdirSync(keysDir)) {
+      if (!file.endsWith('.pem')) continue;
+
+      const isPublicOnly = file.endsWith('.pub.pem');
+      const kid = file.replace(/(\.pub)?\.pem$/, '');
+      const pem = fs.readFileSync(path.join(keysDir, file), 'utf8');
+
+      try {
+        const privateKey = isPublicOnly ? undefined : crypto.createPrivateKey(pem);
+        const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+        if (publicKey.asymmetricKeyType !== KEY_TYPES[algorithm]) {
+          logger.warn(`Skipping JWT key ${file}: not a ${KEY_TYPES[algorithm]} key`);
+          continue;
+        }
+
+        // A private key supersedes a public-only file with the same kid
+        if (!loaded.has(kid) || privateKey) {
+          loaded.set(kid, { kid, publicKey, privateKey });
+        }
+      } catch (error) {
+        logger.error(`Failed to load JWT key ${file}:`, error);
+      }
+    }
+
+    if (!loaded.get(config.jwt.activeKeyId)?.privateKey) {
+      throw new AppError(`Active JWT signing key "${config.jwt.activeKeyId}" not found in ${keysDir}`, 500);
+    }
+
+    logger.info(`Loaded ${loaded.size} JWT ${algorithm} key(s), active kid: ${config.jwt.activeKeyId}`);
+    keyRing = loaded;
+    return keyRing;
+  }
+}
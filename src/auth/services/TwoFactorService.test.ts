@@ -0,0 +1,91 @@
+import { TwoFactorService } from './TwoFactorService';
+import { User } from '../models/User';
+import { TwoFactorMethod } from '../types/auth';
+import { encryptSecret } from '@/utils/encryption';
+import { generateTotp, generateTotpSecret, getTimeStep } from '@/utils/totp';
+import { createFakeDatabase, FakeDatabase } from '@/test/fakeDatabase';
+
+let mockDb: FakeDatabase;
+
+jest.mock('@/database/connection', () => ({ getDatabase: () => mockDb }));
+jest.mock('./EmailService');
+
+describe('TwoFactorService', () => {
+  const secret = generateTotpSecret();
+  const now = Date.UTC(2026, 0, 1, 12, 0, 15);
+  const currentStep = getTimeStep(now);
+  let twoFactorService: TwoFactorService;
+  let user: User;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    mockDb = createFakeDatabase();
+    twoFactorService = new TwoFactorService();
+
+    // Enrolled a few minutes ago
+    const lastUsedStep = currentStep - 10;
+    mockDb.rows('users').push({ id: 'user-1', two_factor_last_used_step: lastUsedStep });
+    user = new User({
+      id: 'user-1',
+      email: 'owner@example.com',
+      twoFactorEnabled: true,
+      twoFactorMethod: TwoFactorMethod.TOTP,
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorLastUsedStep: lastUsedStep
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('TOTP codes', () => {
+    it.each([-1, 0, 1])('accepts a code %i step(s) from now', async (offset) => {
+      const code = generateTotp(secret, currentStep + offset);
+
+      await expect(twoFactorService.verifySecondFactor(user, { code })).resolves.toBe('otp');
+      expect(mockDb.rows('users')[0].two_factor_last_used_step).toBe(currentStep + offset);
+    });
+
+    it.each([-2, 2])('rejects a code %i steps from now', async (offset) => {
+      const code = generateTotp(secret, currentStep + offset);
+
+      await expect(twoFactorService.verifySecondFactor(user, { code })).resolves.toBeNull();
+    });
+
+    it('rejects a second code from the same time step', async () => {
+      const code = generateTotp(secret, currentStep);
+
+      await expect(twoFactorService.verifySecondFactor(user, { code })).resolves.toBe('otp');
+      await expect(twoFactorService.verifySecondFactor(user, { code })).resolves.toBeNull();
+    });
+
+    it('rejects an earlier step once a later one has been used', async () => {
+      await expect(twoFactorService.verifySecondFactor(user, { code: generateTotp(secret, currentStep + 1) })).resolves.toBe('otp');
+      await expect(twoFactorService.verifySecondFactor(user, { code: generateTotp(secret, currentStep) })).resolves.toBeNull();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('accepts each recovery code exactly once', async () => {
+      const [recoveryCode, otherCode] = await twoFactorService.regenerateRecoveryCodes(user.id);
+
+      await expect(twoFactorService.verifySecondFactor(user, { recoveryCode })).resolves.toBe('recovery');
+      await expect(twoFactorService.verifySecondFactor(user, { recoveryCode })).resolves.toBeNull();
+
+      // Formatting doesn't make a used code usable again, and other codes still work
+      await expect(twoFactorService.verifySecondFactor(user, { recoveryCode: recoveryCode.replace('-', '').toLowerCase() }))
+        .resolves.toBeNull();
+      await expect(twoFactorService.verifySecondFactor(user, { recoveryCode: otherCode })).resolves.toBe('recovery');
+
+      await expect(twoFactorService.countRemainingRecoveryCodes(user.id)).resolves.toBe(8);
+    });
+
+    it('rejects codes that were replaced by a new set', async () => {
+      const [oldCode] = await twoFactorService.regenerateRecoveryCodes(user.id);
+      await twoFactorService.regenerateRecoveryCodes(user.id);
+
+      await expect(twoFactorService.verifySecondFactor(user, { recoveryCode: oldCode })).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+import { User } from '../models/User';
+import { AppError, BadRequestError } from '@/utils/AppError';
+import { logger } from '@/utils/logger';
+import { getDatabase } from '@/database/connection';
+import { encryptSecret, decryptSecret } from '@/utils/encryption';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri, base32Encode } from '@/utils/totp';
+import { AuthMethod, TwoFactorMethod } from '../types/auth';
+import { EmailOtpService, EmailOtpPurpose } from './EmailOtpService';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export class TwoFactorService {
+  private emailOtpService: EmailOtpService;
+
+  constructor() {
+    this.emailOtpService = new EmailOtpService();
+  }
+
+  // Start TOTP enrollment; the secret only becomes active once a code is confirmed
+  async beginSetup(user: User): Promise<TwoFactorSetup> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await user.setPendingTwoFactorSecret(encryptSecret(secret));
+
+    logger.info(`Two-factor setup started for user: ${user.email}`);
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, config.security.twoFactor.issuer)
+    };
+  }
+
+  // Confirm enrollment with a code from the app and issue recovery codes (shown once)
+  async confirmSetup(user: User, code: string): Promise<string[]> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestError('Two-factor setup has not been started');
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorPendingSecret), code, config.security.twoFactor.window);
+    if (step === null) {
+      throw new BadRequestError('Invalid authentication code');
+    }
+
+    await user.enableTwoFactor(step);
+    const recoveryCodes = await this.regenerateRecoveryCodes(user.id);
+
+    logger.info(`Two-factor authentication enabled for user: ${user.email}`);
+    return recoveryCodes;
+  }
+
+  // Start email-code enrollment for users without an authenticator app
+  async beginEmailSetup(user: User): Promise<void> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+
+    await this.emailOtpService.sendCode(user, 'enroll');
+    logger.info(`Email two-factor setup started for user: ${user.email}`);
+  }
+
+  // Confirm email-code enrollment and issue recovery codes (shown once)
+  async confirmEmailSetup(user: User, code: string): Promise<string[]> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+
+    if (!(await this.emailOtpService.verifyCode(user.id, 'enroll', code))) {
+      throw new BadRequestError('Invalid or expired verification code');
+    }
+
+    await user.enableEmailTwoFactor();
+    const recoveryCodes = await this.regenerateRecoveryCodes(user.id);
+
+    logger.info(`Email two-factor authentication enabled for user: ${user.email}`);
+    return recoveryCodes;
+  }
+
+  // Email a login code to users whose second factor is email
+  async sendLoginCode(user: User): Promise<void> {
+    if (user.twoFactorMethod !== TwoFactorMethod.EMAIL) {
+      throw new BadRequestError('Use the code from your authenticator app');
+    }
+
+    await this.emailOtpService.sendCode(user, 'login');
+  }
+
+  // Email a step-up code; TOTP users confirm with their app instead
+  async sendStepUpCode(user: User): Promise<void> {
+    if (user.twoFactorEnabled && user.twoFactorMethod !== TwoFactorMethod.EMAIL) {
+      throw new BadRequestError('Use the code from your authenticator app');
+    }
+
+    await this.emailOtpService.sendCode(user, 'step_up');
+  }
+
+  // Step-up accepts the enrolled factor, or an emailed code when two-factor is off
+  async verifyStepUpFactor(user: User, input: SecondFactorInput): Promise<AuthMethod | null> {
+    if (user.twoFactorEnabled) {
+      return this.verifySecondFactor(user, input, 'step_up');
+    }
+
+    if (input.code) {
+      return await this.emailOtpService.verifyCode(user.id, 'step_up', input.code) ? 'email' : null;
+    }
+
+    return null;
+  }
+
+  // Turn two-factor off after proving possession of a factor
+  async disable(user: User, input: SecondFactorInput): Promise<void> {
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifySecondFactor(user, input, 'step_up'))) {
+      throw new BadRequestError('Invalid authentication code');
+    }
+
+    await user.disableTwoFactor();
+    await getDatabase()('two_factor_recovery_codes').where('user_id', user.id).del();
+
+    logger.info(`Two-factor authentication disabled for user: ${user.email}`);
+  }
+
+  // Check a TOTP code (rejecting replays), an emailed code or a recovery code;
+  // returns the method that passed, or null
+  async verifySecondFactor(user: User, input: SecondFactorInput, purpose: EmailOtpPurpose = 'login'): Promise<AuthMethod | null> {
+    if (!user.twoFactorEnabled) {
+      return null;
+    }
+
+    if (input.code && user.twoFactorMethod === TwoFactorMethod.EMAIL) {
+      return await this.emailOtpService.verifyCode(user.id, purpose, input.code) ? 'email' : null;
+    }
+
+    if (input.code && user.twoFactorSecret) {
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), input.code, config.security.twoFactor.window);
+      return step !== null && await user.recordTwoFactorStep(step) ? 'otp' : null;
+    }
+
+    if (input.recoveryCode) {
+      return await this.consumeRecoveryCode(user.id, input.recoveryCode) ? 'recovery' : null;
+    }
+
+    return null;
+  }
+
+  // Number of recovery codes a user has left
+  async countRemainingRecoveryCodes(userId: string): Promise<number> {
+    const db = getDatabase();
+    const [{ count }] = await db('two_factor_recovery_codes')
+      .where('user_id', userId)
+      .whereNull('used_at')
+      .count({ count: '*' });
+
+    return Number(count);
+  }
+
+  // Replace all recovery codes with a fresh set
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    try {
+      const db = getDatabase();
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+
+      await db.transaction(async (trx) => {
+        await trx('two_factor_recovery_codes').where('user_id', userId).del();
+        await trx('two_factor_recovery_codes').insert(codes.map((code) => ({
+          user_id: userId,
+          code_hash: this.hashRecoveryCode(code),
+          created_at: new Date()
+        })));
+      });
+
+      return codes;
+    } catch (error) {
+      logger.error('Failed to generate recovery codes:', error);
+      throw new AppError('Failed to generate recovery codes', 500);
+    }
+  }
+
+  // Mark a recovery code as used; the conditional update makes it single-use under concurrency
+  private async consumeRecoveryCode(userId: string, recoveryCode: string): Promise<boolean> {
+    const db = getDatabase();
+    const updated = await db('two_factor_recovery_codes')
+      .where('user_id', userId)
+      .where('code_hash', this.hashRecoveryCode(recoveryCode))
+      .whereNull('used_at')
+      .update({ used_at: new Date() });
+
+    if (updated) {
+      logger.info(`Recovery code used for user: ${userId}`);
+    }
+    return updated > 0;
+  }
+
+  // Codes look like "ABCDE-FGHIJ"
+  private generateRecoveryCode(): string {
+    const raw = base32Encode(crypto.randomBytes(7)).substring(0, 10);
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -0,0 +1,52 @@
+import { config } from '@/config';
+import { RedisService, getOptionalRedisService } from '@/database/redis';
+import { logger } from '@/utils/logger';
+
+const KEY_PREFIX = 'registration:verify-resend';
+const DAILY_WINDOW_SECONDS = 24 * 60 * 60;
+
+export interface ResendAllowance {
+  allowed: boolean;
+  // When the next resend may be requested
+  retryAfterSeconds: number;
+}
+
+// Redis-backed cooldown and daily cap for resending registration verification emails.
+// When Redis is unavailable resends are allowed and only the route rate limit applies.
+export class VerificationResendService {
+  // Claim a resend for an email address if its cooldown and daily cap allow it
+  async reserve(email: string): Promise<ResendAllowance> {
+    const { verificationResendCooldownSeconds: cooldownSeconds, verificationResendDailyLimit: dailyLimit } = config.registration;
+
+    const redis = getOptionalRedisService();
+    if (!redis) {
+      logger.warn(`Redis unavailable - verification resend throttle skipped for ${email}`);
+      return { allowed: true, retryAfterSeconds: cooldownSeconds };
+    }
+
+    const cooldownKey = `${KEY_PREFIX}:cooldown:${email.toLowerCase()}`;
+    const dailyKey = `${KEY_PREFIX}:daily:${email.toLowerCase()}`;
+
+    const sentToday = parseInt(await redis.get(dailyKey) || '0');
+    if (sentToday >= dailyLimit) {
+      return { allowed: false, retryAfterSeconds: await this.secondsLeft(redis, dailyKey) };
+    }
+
+    // Setting the cooldown key only when absent lets one of two racing requests through
+    if (!await redis.setIfAbsent(cooldownKey, '1', cooldownSeconds)) {
+      return { allowed: false, retryAfterSeconds: await this.secondsLeft(redis, cooldownKey) };
+    }
+
+    // The daily window starts with the first resend
+    const sent = await redis.increment(dailyKey, DAILY_WINDOW_SECONDS);
+    if (sent !== null && sent >= dailyLimit) {
+      return { allowed: true, retryAfterSeconds: await this.secondsLeft(redis, dailyKey) };
+    }
+
+    return { allowed: true, retryAfterSeconds: cooldownSeconds };
+  }
+
+  private async secondsLeft(redis: RedisService, key: string): Promise<number> {
+    return Math.max(0, await redis.ttl(key));
+  }
+}
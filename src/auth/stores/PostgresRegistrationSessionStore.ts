@@ -0,0 +1,227 @@
+import { getDatabase } from '@/database/connection';
+import {
+  RegistrationSessionStore,
+  RegistrationSessionRecord,
+  NewRegistrationSessionRecord,
+  RegistrationSessionChanges
+} from './RegistrationSessionStore';
+
+const TABLE = 'registration_sessions';
+const RESERVATIONS_TABLE = 'shop_url_reservations';
+
+const COLUMNS: Record<keyof RegistrationSessionRecord, string> = {
+  id: 'id',
+  email: 'email',
+  sessionToken: 'session_token',
+  stepData: 'step_data',
+  stepHistory: 'step_history',
+  currentStep: 'current_step',
+  totalSteps: 'total_steps',
+  emailVerified: 'email_verified',
+  verificationToken: 'verification_token',
+  verificationCode: 'verification_code',
+  verificationCodeAttempts: 'verification_code_attempts',
+  verificationCodeExpiresAt: 'verification_code_expires_at',
+  oauthProvider: 'oauth_provider',
+  oauthId: 'oauth_id',
+  oauthData: 'oauth_data',
+  resumeToken: 'resume_token',
+  resumeTokenExpiresAt: 'resume_token_expires_at',
+  remindersSent: 'reminders_sent',
+  lastReminderAt: 'last_reminder_at',
+  expiresAt: 'expires_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+};
+
+const JSON_FIELDS: (keyof RegistrationSessionRecord)[] = ['stepData', 'stepHistory', 'oauthData'];
+
+// Registration sessions in the registration_sessions table, for environments without Redis
+export class PostgresRegistrationSessionStore implements RegistrationSessionStore {
+  async create(session: NewRegistrationSessionRecord): Promise<RegistrationSessionRecord> {
+    const db = getDatabase();
+    const now = new Date();
+
+    const [created] = await db(TABLE)
+      .insert({ ...this.toRow(session), created_at: now, updated_at: now })
+      .returning('*');
+
+    return this.fromRow(created);
+  }
+
+  async findByToken(sessionToken: string): Promise<RegistrationSessionRecord | null> {
+    const db = getDatabase();
+    const session = await db(TABLE).where('session_token', sessionToken).first();
+
+    return session ? this.fromRow(session) : null;
+  }
+
+  async findByEmail(email: string): Promise<RegistrationSessionRecord | null> {
+    const db = getDatabase();
+    // Case-insensitive, like the Redis store's lowercased email key
+    const session = await db(TABLE)
+      .whereRaw('LOWER(email) = ?', [email.toLowerCase()])
+      .orderBy('created_at', 'desc')
+      .first();
+
+    return session ? this.fromRow(session) : null;
+  }
+
+  async claimResumeToken(hashedToken: string): Promise<RegistrationSessionRecord | null> {
+    const db = getDatabase();
+
+    // Clearing the token in the same statement means only one request can use the link
+    const [session] = await db(TABLE)
+      .where('resume_token', hashedToken)
+      .where('resume_token_expires_at', '>', new Date())
+      .where('expires_at', '>', new Date())
+      .update({ resume_token: null, resume_token_expires_at: null, updated_at: new Date() })
+      .returning('*');
+
+    return session ? this.fromRow(session) : null;
+  }
+
+  async findIdle(idleSince: Date, maxReminders: number, limit: number): Promise<RegistrationSessionRecord[]> {
+    const db = getDatabase();
+    const sessions = await db(TABLE)
+      .where('email_verified', true)
+      .where('expires_at', '>', new Date())
+      .where('updated_at', '<', idleSince)
+      .where('reminders_sent', '<', maxReminders)
+      .where((query) => query.whereNull('last_reminder_at').orWhere('last_reminder_at', '<', idleSince))
+      .orderBy('updated_at', 'asc')
+      .limit(limit);
+
+    return sessions.map((session: any) => this.fromRow(session));
+  }
+
+  async save(session: RegistrationSessionRecord): Promise<RegistrationSessionRecord> {
+    const db = getDatabase();
+    // Counters only change through incrementVerificationCodeAttempts and updateIf, so a save can't undo them
+    const { id, createdAt, verificationCodeAttempts, remindersSent, lastReminderAt, ...fields } = session;
+
+    // Unset optional fields are written as null so cleared values don't linger
+    const changes: RegistrationSessionChanges = {};
+    for (const [field, value] of Object.entries(fields) as [keyof RegistrationSessionRecord, any][]) {
+      changes[field] = value === undefined ? null : value;
+    }
+
+    const [updated] = await db(TABLE)
+      .where('id', id)
+      .update({ ...this.toRow(changes), updated_at: new Date() })
+      .returning('*');
+
+    return this.fromRow(updated);
+  }
+
+  async updateIf(id: string, expected: RegistrationSessionChanges, changes: RegistrationSessionChanges): Promise<boolean> {
+    const db = getDatabase();
+    const updated = await db(TABLE)
+      .where('id', id)
+      .where(this.toRow(expected))
+      .update(this.toRow(changes));
+
+    return updated > 0;
+  }
+
+  async incrementVerificationCodeAttempts(id: string): Promise<void> {
+    const db = getDatabase();
+    await db(TABLE).where('id', id).increment('verification_code_attempts', 1);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = getDatabase();
+    await db(RESERVATIONS_TABLE).where('session_id', id).del();
+    await db(TABLE).where('id', id).del();
+  }
+
+  async removeExpired(): Promise<RegistrationSessionRecord[]> {
+    const db = getDatabase();
+    const now = new Date();
+
+    const expired = await db(TABLE)
+      .where('expires_at', '<', now)
+      .del()
+      .returning('*');
+    await db(RESERVATIONS_TABLE).where('expires_at', '<', now).del();
+
+    return expired.map((session: any) => this.fromRow(session));
+  }
+
+  async reserveShopUrl(shopUrl: string, sessionId: string, until: Date): Promise<boolean> {
+    const db = getDatabase();
+
+    // One statement, so of two sessions racing for a URL only one gets a row back
+    const rows = await db(RESERVATIONS_TABLE)
+      .insert({ shop_url: shopUrl, session_id: sessionId, expires_at: until, created_at: new Date() })
+      .onConflict('shop_url')
+      .merge(['session_id', 'expires_at'])
+      .where((query) => query
+        .where(`${RESERVATIONS_TABLE}.session_id`, sessionId)
+        .orWhere(`${RESERVATIONS_TABLE}.expires_at`, '<', new Date()))
+      .returning('shop_url');
+
+    return rows.length > 0;
+  }
+
+  async isShopUrlReserved(shopUrl: string, exceptSessionId?: string): Promise<boolean> {
+    const db = getDatabase();
+    const query = db(RESERVATIONS_TABLE)
+      .where('shop_url', shopUrl)
+      .where('expires_at', '>', new Date());
+
+    if (exceptSessionId) {
+      query.whereNot('session_id', exceptSessionId);
+    }
+
+    return !!await query.first();
+  }
+
+  async releaseShopUrl(shopUrl: string, sessionId: string): Promise<void> {
+    const db = getDatabase();
+    await db(RESERVATIONS_TABLE).where({ shop_url: shopUrl, session_id: sessionId }).del();
+  }
+
+  private toRow(fields: RegistrationSessionChanges): Record<string, any> {
+    const row: Record<string, any> = {};
+
+    for (const [field, value] of Object.entries(fields) as [keyof RegistrationSessionRecord, any][]) {
+      if (value === undefined) continue;
+      row[COLUMNS[field]] = JSON_FIELDS.includes(field) && value !== null ? JSON.stringify(value) : value;
+    }
+
+    return row;
+  }
+
+  private fromRow(session: any): RegistrationSessionRecord {
+    return {
+      id: session.id,
+      email: session.email,
+      sessionToken: session.session_token,
+      stepData: this.parseJson(session.step_data) || {},
+      stepHistory: this.parseJson(session.step_history) || [],
+      currentStep: session.current_step,
+      totalSteps: session.total_steps,
+      emailVerified: session.email_verified,
+      verificationToken: session.verification_token || undefined,
+      verificationCode: session.verification_code || undefined,
+      verificationCodeAttempts: session.verification_code_attempts || 0,
+      verificationCodeExpiresAt: session.verification_code_expires_at ? new Date(session.verification_code_expires_at) : undefined,
+      oauthProvider: session.oauth_provider || undefined,
+      oauthId: session.oauth_id || undefined,
+      oauthData: this.parseJson(session.oauth_data) || undefined,
+      resumeToken: session.resume_token || undefined,
+      resumeTokenExpiresAt: session.resume_token_expires_at ? new Date(session.resume_token_expires_at) : undefined,
+      remindersSent: session.reminders_sent || 0,
+      lastReminderAt: session.last_reminder_at ? new Date(session.last_reminder_at) : undefined,
+      expiresAt: new Date(session.expires_at),
+      createdAt: new Date(session.created_at),
+      updatedAt: new Date(session.updated_at)
+    };
+  }
+
+  // pg hands json columns back parsed, but tolerate raw JSON text too
+  private parseJson(value: any): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import { WatchError } from 'redis';
+import { getRedisClient, RedisService } from '@/database/redis';
+import {
+  RegistrationSessionStore,
+  RegistrationSessionRecord,
+  NewRegistrationSessionRecord,
+  RegistrationSessionChanges
+} from './RegistrationSessionStore';
+
+type RedisTransaction = ReturnType<ReturnType<typeof getRedisClient>['multi']>;
+
+const KEY_PREFIX = 'registration:session';
+const EXPIRY_INDEX = 'registration:sessions:by-expiry';
+const ACTIVITY_INDEX = 'registration:sessions:by-activity';
+
+// Sessions lapse at expiresAt; a stripped copy outlives them so cleanup can still record where they stopped
+const EXPIRED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FIELDS: (keyof RegistrationSessionRecord)[] = [
+  'verificationCodeExpiresAt', 'resumeTokenExpiresAt', 'lastReminderAt', 'expiresAt', 'createdAt', 'updatedAt'
+];
+
+// Attempts at a read-modify-write before giving up on a busy session
+const MAX_WATCH_RETRIES = 3;
+
+// Registration sessions as JSON documents with native TTLs, plus lookup keys by session token,
+// email and resume token, stripped expiry records, and sorted sets for expiry cleanup and idle reminders
+export class RedisRegistrationSessionStore implements RegistrationSessionStore {
+  async create(session: NewRegistrationSessionRecord): Promise<RegistrationSessionRecord> {
+    const now = new Date();
+    const created: RegistrationSessionRecord = { ...session, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+
+    await this.write(created);
+    return created;
+  }
+
+  async findByToken(sessionToken: string): Promise<RegistrationSessionRecord | null> {
+    const id = await getRedisClient().get(this.tokenKey(sessionToken));
+    return id ? this.load(id) : null;
+  }
+
+  async findByEmail(email: string): Promise<RegistrationSessionRecord | null> {
+    const id = await getRedisClient().get(this.emailKey(email));
+    return id ? this.load(id) : null;
+  }
+
+  async claimResumeToken(hashedToken: string): Promise<RegistrationSessionRecord | null> {
+    // GETDEL hands the link to exactly one request
+    const id = await getRedisClient().getDel(this.resumeKey(hashedToken));
+    if (!id) return null;
+
+    const session = await this.load(id);
+    const now = new Date();
+    if (!session || session.resumeToken !== hashedToken || !session.resumeTokenExpiresAt ||
+        session.resumeTokenExpiresAt <= now || session.expiresAt <= now) {
+      return null;
+    }
+
+    return this.save({ ...session, resumeToken: undefined, resumeTokenExpiresAt: undefined });
+  }
+
+  async findIdle(idleSince: Date, maxReminders: number, limit: number): Promise<RegistrationSessionRecord[]> {
+    const redis = getRedisClient();
+    const now = new Date();
+    const idle: RegistrationSessionRecord[] = [];
+
+    // Sessions already at the reminder cap stay in the index until they expire, so page past them
+    for (let offset = 0; idle.length < limit; offset += limit) {
+      const ids = await redis.zRangeByScore(ACTIVITY_INDEX, '-inf', `(${idleSince.getTime()}`, {
+        LIMIT: { offset, count: limit }
+      });
+      if (ids.length === 0) break;
+
+      for (const session of await this.loadMany(ids)) {
+        if (session.emailVerified && session.expiresAt > now && session.updatedAt < idleSince &&
+            session.remindersSent < maxReminders && (!session.lastReminderAt || session.lastReminderAt < idleSince)) {
+          idle.push(session);
+        }
+      }
+    }
+
+    return idle.slice(0, limit);
+  }
+
+  async save(session: RegistrationSessionRecord): Promise<RegistrationSessionRecord> {
+    return this.retryOnWatchError(() => {
+      const key = this.sessionKey(session.id);
+
+      // Counters come from the stored document under WATCH, so a concurrent increment or claim is never written over
+      return getRedisClient().executeIsolated(async (isolated) => {
+        await isolated.watch(key);
+
+        const document = await isolated.get(key);
+        const stored = document ? this.parse(document) : session;
+        const saved: RegistrationSessionRecord = {
+          ...session,
+          verificationCodeAttempts: stored.verificationCodeAttempts,
+          remindersSent: stored.remindersSent,
+          lastReminderAt: stored.lastReminderAt,
+          updatedAt: new Date()
+        };
+
+        await this.queueWrite(isolated.multi(), saved).exec();
+        return saved;
+      });
+    });
+  }
+
+  async updateIf(id: string, expected: RegistrationSessionChanges, changes: RegistrationSessionChanges): Promise<boolean> {
+    try {
+      return await this.modify(id, (session) => {
+        const matches = Object.entries(expected).every(([field, value]) =>
+          this.sameValue(session[field as keyof RegistrationSessionRecord], value));
+        return matches ? this.apply(session, changes) : null;
+      });
+    } catch (error) {
+      // Someone else changed the session first, so the expected values may no longer hold
+      if (error instanceof WatchError) return false;
+      throw error;
+    }
+  }
+
+  async incrementVerificationCodeAttempts(id: string): Promise<void> {
+    await this.retryOnWatchError(() =>
+      this.modify(id, (session) => ({ ...session, verificationCodeAttempts: session.verificationCodeAttempts + 1 })));
+  }
+
+  async delete(id: string): Promise<void> {
+    const session = await this.load(id);
+    const redis = getRedisClient();
+
+    const keys = [this.sessionKey(id), this.expiryKey(id)];
+    if (session) {
+      keys.push(this.tokenKey(session.sessionToken));
+      if (session.resumeToken) {
+        keys.push(this.resumeKey(session.resumeToken));
+      }
+      // A newer session for the same email keeps its lookup key
+      if (await redis.get(this.emailKey(session.email)) === id) {
+        keys.push(this.emailKey(session.email));
+      }
+      if (session.stepData.step4?.shopUrl) {
+        await this.releaseShopUrl(session.stepData.step4.shopUrl, id);
+      }
+    }
+
+    await redis
+      .multi()
+      .del(keys)
+      .zRem(EXPIRY_INDEX, id)
+      .zRem(ACTIVITY_INDEX, id)
+      .exec();
+  }
+
+  async removeExpired(): Promise<RegistrationSessionRecord[]> {
+    const redis = getRedisClient();
+    const ids = await redis.zRangeByScore(EXPIRY_INDEX, '-inf', Date.now());
+    if (ids.length === 0) return [];
+
+    // The documents have usually lapsed by now, so report from the expiry records
+    const records = await redis.mGet(ids.map((id) => this.expiryKey(id)));
+    const expired = records
+      .filter((record): record is string => !!record)
+      .map((record) => this.parse(record));
+
+    for (const id of ids) {
+      await this.delete(id);
+    }
+
+    return expired;
+  }
+
+  async reserveShopUrl(shopUrl: string, sessionId: string, until: Date): Promise<boolean> {
+    const redis = getRedisClient();
+    const key = this.shopUrlKey(shopUrl);
+
+    // NX lets one of two racing sessions take a free URL; the key's TTL releases it
+    if (await redis.set(key, sessionId, { NX: true, PXAT: until.getTime() }) === 'OK') {
+      return true;
+    }
+
+    // Already ours: refresh the hold while it is still ours
+    try {
+      return await redis.executeIsolated(async (isolated) => {
+        await isolated.watch(key);
+        if (await isolated.get(key) !== sessionId) {
+          await isolated.unwatch();
+          return false;
+        }
+
+        await isolated.multi().set(key, sessionId, { PXAT: until.getTime() }).exec();
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof WatchError) return false;
+      throw error;
+    }
+  }
+
+  async isShopUrlReserved(shopUrl: string, exceptSessionId?: string): Promise<boolean> {
+    const holder = await getRedisClient().get(this.shopUrlKey(shopUrl));
+    return !!holder && holder !== exceptSessionId;
+  }
+
+  async releaseShopUrl(shopUrl: string, sessionId: string): Promise<void> {
+    await new RedisService().deleteIfEquals(this.shopUrlKey(shopUrl), sessionId);
+  }
+
+  // Read-modify-write of one session; WATCH makes the write fail with a WatchError if it changed in between
+  private async modify(id: string, update: (session: RegistrationSessionRecord) => RegistrationSessionRecord | null): Promise<boolean> {
+    const key = this.sessionKey(id);
+
+    return getRedisClient().executeIsolated(async (isolated) => {
+      await isolated.watch(key);
+
+      const document = await isolated.get(key);
+      const updated = document ? update(this.parse(document)) : null;
+      if (!updated) {
+        await isolated.unwatch();
+        return false;
+      }
+
+      await isolated.multi().set(key, JSON.stringify(updated), { KEEPTTL: true }).exec();
+      return true;
+    });
+  }
+
+  private async retryOnWatchError<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof WatchError) || attempt >= MAX_WATCH_RETRIES) throw error;
+      }
+    }
+  }
+
+  private apply(session: RegistrationSessionRecord, changes: RegistrationSessionChanges): RegistrationSessionRecord {
+    const updated: any = { ...session };
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete updated[field];
+      } else if (value !== undefined) {
+        updated[field] = value;
+      }
+    }
+
+    return updated;
+  }
+
+  private sameValue(current: any, expected: any): boolean {
+    if (expected instanceof Date) {
+      return current instanceof Date && current.getTime() === expected.getTime();
+    }
+
+    return current === (expected === null ? undefined : expected);
+  }
+
+  private async write(session: RegistrationSessionRecord): Promise<void> {
+    await this.queueWrite(getRedisClient().multi(), session).exec();
+  }
+
+  // The document, its lookup keys, its expiry record and its index entries, added to a transaction
+  private queueWrite(transaction: RedisTransaction, session: RegistrationSessionRecord): RedisTransaction {
+    const expiresAt = session.expiresAt.getTime();
+    transaction
+      .set(this.sessionKey(session.id), JSON.stringify(session), { PXAT: expiresAt })
+      .set(this.tokenKey(session.sessionToken), session.id, { PXAT: expiresAt })
+      .set(this.emailKey(session.email), session.id, { PXAT: expiresAt })
+      .set(this.expiryKey(session.id), JSON.stringify(this.strip(session)), { PXAT: expiresAt + EXPIRED_RETENTION_MS })
+      .zAdd(EXPIRY_INDEX, { score: expiresAt, value: session.id })
+      .zAdd(ACTIVITY_INDEX, { score: session.updatedAt.getTime(), value: session.id });
+
+    if (session.resumeToken && session.resumeTokenExpiresAt) {
+      transaction.set(this.resumeKey(session.resumeToken), session.id, { PXAT: session.resumeTokenExpiresAt.getTime() });
+    }
+
+    return transaction;
+  }
+
+  // What an expired session is remembered by: no password, codes or tokens it could be resumed with
+  private strip(session: RegistrationSessionRecord): RegistrationSessionRecord {
+    const { verificationToken, verificationCode, resumeToken, resumeTokenExpiresAt, oauthData, ...stripped } = session;
+    const stepData = { ...session.stepData };
+    if (stepData.step2) {
+      const { password, ...personalInfo } = stepData.step2;
+      stepData.step2 = personalInfo;
+    }
+
+    return { ...stripped, stepData };
+  }
+
+  private async load(id: string): Promise<RegistrationSessionRecord | null> {
+    const [session] = await this.loadMany([id]);
+    return session || null;
+  }
+
+  // Sessions whose keys have lapsed leave the activity index as they are found; the expiry index
+  // keeps them until removeExpired records them
+  private async loadMany(ids: string[]): Promise<RegistrationSessionRecord[]> {
+    if (ids.length === 0) return [];
+
+    const redis = getRedisClient();
+    const documents = await redis.mGet(ids.map((id) => this.sessionKey(id)));
+    const lapsed = ids.filter((id, index) => !documents[index]);
+
+    if (lapsed.length > 0) {
+      await redis.zRem(ACTIVITY_INDEX, lapsed);
+    }
+
+    return documents
+      .filter((document): document is string => !!document)
+      .map((document) => this.parse(document));
+  }
+
+  private parse(document: string): RegistrationSessionRecord {
+    const session = JSON.parse(document);
+
+    for (const field of Object.keys(session)) {
+      if (session[field] === null) {
+        delete session[field];
+      }
+    }
+    for (const field of DATE_FIELDS) {
+      if (session[field]) {
+        session[field] = new Date(session[field]);
+      }
+    }
+
+    return session;
+  }
+
+  private sessionKey(id: string): string {
+    return `${KEY_PREFIX}:${id}`;
+  }
+
+  private expiryKey(id: string): string {
+    return `${KEY_PREFIX}:expired:${id}`;
+  }
+
+  private tokenKey(sessionToken: string): string {
+    return `${KEY_PREFIX}:token:${sessionToken}`;
+  }
+
+  private emailKey(email: string): string {
+    return `${KEY_PREFIX}:email:${email.toLowerCase()}`;
+  }
+
+  private resumeKey(hashedToken: string): string {
+    return `${KEY_PREFIX}:resume:${hashedToken}`;
+  }
+
+  private shopUrlKey(shopUrl: string): string {
+    return `registration:shop-url:${shopUrl}`;
+  }
+}
@@ -0,0 +1,27 @@
+import { connectDatabase, closeDatabase } from '@/database/connection';
+import { connectRedis, closeRedis } from '@/database/redis';
+import { registrationSessionStoreContract } from '@/test/registrationSessionStoreContract';
+import { RegistrationSessionStore } from './RegistrationSessionStore';
+import { PostgresRegistrationSessionStore } from './PostgresRegistrationSessionStore';
+import { RedisRegistrationSessionStore } from './RedisRegistrationSessionStore';
+
+// The store contract against the Postgres (migrated) and Redis servers from the DB_* and REDIS_*
+// settings, so it only runs with REGISTRATION_STORE_TESTS=true
+const describeStores = process.env.REGISTRATION_STORE_TESTS === 'true' ? describe.each : describe.skip.each;
+
+describeStores<[string, () => RegistrationSessionStore]>([
+  ['Postgres', () => new PostgresRegistrationSessionStore()],
+  ['Redis', () => new RedisRegistrationSessionStore()]
+])('%s registration session store against a server', (_, createStore) => {
+  beforeAll(async () => {
+    await connectDatabase();
+    await connectRedis();
+  });
+
+  afterAll(async () => {
+    await closeRedis();
+    await closeDatabase();
+  });
+
+  registrationSessionStoreContract(createStore);
+});
@@ -0,0 +1,62 @@
+import { getRedisClient } from '@/database/redis';
+import { createFakeDatabase, FakeDatabase } from '@/test/fakeDatabase';
+import { resetFakeRedis } from '@/test/fakeRedis';
+import { registrationSessionStoreContract } from '@/test/registrationSessionStoreContract';
+import { RegistrationStep } from '../types/auth';
+import { PostgresRegistrationSessionStore } from './PostgresRegistrationSessionStore';
+import { RedisRegistrationSessionStore } from './RedisRegistrationSessionStore';
+
+let mockDb: FakeDatabase;
+
+jest.mock('@/database/connection', () => ({ getDatabase: () => mockDb }));
+jest.mock('@/database/redis', () => jest.requireActual('@/test/fakeRedis').fakeRedisModule());
+
+// The same contract against the in-memory doubles; RegistrationSessionStore.integration.test.ts
+// runs it against real servers
+describe.each([
+  ['Postgres', () => new PostgresRegistrationSessionStore()],
+  ['Redis', () => new RedisRegistrationSessionStore()]
+])('%s registration session store', (_, createStore) => {
+  beforeEach(() => {
+    mockDb = createFakeDatabase();
+    resetFakeRedis();
+  });
+
+  registrationSessionStoreContract(createStore);
+});
+
+describe('Redis registration session store expiry', () => {
+  const store = new RedisRegistrationSessionStore();
+
+  beforeEach(() => {
+    resetFakeRedis();
+  });
+
+  it('lets the session lapse at expiresAt and keeps only a stripped record after it', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    const session = await store.create({
+      email: 'owner@example.com',
+      sessionToken: 'session-token',
+      verificationToken: 'verification-token',
+      stepData: { step2: { firstName: 'Ada', lastName: 'Owner', password: 'Secret123!' } },
+      stepHistory: [],
+      currentStep: RegistrationStep.BUSINESS_TYPE,
+      totalSteps: 5,
+      emailVerified: true,
+      verificationCodeAttempts: 0,
+      remindersSent: 0,
+      expiresAt
+    });
+    const redis = getRedisClient();
+
+    const readAt = Date.now();
+    const ttl = await redis.pTTL(`registration:session:${session.id}`);
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(expiresAt.getTime() - readAt);
+
+    const expired = JSON.parse((await redis.get(`registration:session:expired:${session.id}`))!);
+    expect(expired.stepData.step2).toEqual({ firstName: 'Ada', lastName: 'Owner' });
+    expect(expired.verificationToken).toBeUndefined();
+    expect(expired.currentStep).toBe(RegistrationStep.BUSINESS_TYPE);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  RegistrationStep,
+  RegistrationStepData,
+  RegistrationStepEvent,
+  OAuthProfile
+} from '../types/auth';
+
+// Everything persisted for a registration session
+export interface RegistrationSessionRecord {
+  id: string;
+  email: string;
+  sessionToken: string;
+  stepData: RegistrationStepData;
+  stepHistory: RegistrationStepEvent[];
+  currentStep: RegistrationStep;
+  totalSteps: number;
+  emailVerified: boolean;
+  verificationToken?: string;
+  verificationCode?: string;
+  verificationCodeAttempts: number;
+  verificationCodeExpiresAt?: Date;
+  oauthProvider?: string;
+  oauthId?: string;
+  oauthData?: OAuthProfile;
+  resumeToken?: string;
+  resumeTokenExpiresAt?: Date;
+  remindersSent: number;
+  lastReminderAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewRegistrationSessionRecord = Omit<RegistrationSessionRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Field changes for a conditional update; null clears an optional field
+export type RegistrationSessionChanges = {
+  [K in keyof RegistrationSessionRecord]?: RegistrationSessionRecord[K] | null;
+};
+
+// Where RegistrationSession keeps its data. Expired sessions may still be returned by the
+// finders; callers check expiresAt and remove them so their expiry can be recorded.
+export interface RegistrationSessionStore {
+  create(session: NewRegistrationSessionRecord): Promise<RegistrationSessionRecord>;
+
+  findByToken(sessionToken: string): Promise<RegistrationSessionRecord | null>;
+
+  // The most recent session for an email address
+  findByEmail(email: string): Promise<RegistrationSessionRecord | null>;
+
+  // Find the live session holding an unexpired resume token hash and clear the token, so it works once
+  claimResumeToken(hashedToken: string): Promise<RegistrationSessionRecord | null>;
+
+  // Live, verified sessions untouched since idleSince and under the reminder cap, longest idle first
+  findIdle(idleSince: Date, maxReminders: number, limit: number): Promise<RegistrationSessionRecord[]>;
+
+  // Write the session and bump updatedAt. Verification code attempts and reminder counters are left
+  // as stored: they only change through incrementVerificationCodeAttempts and updateIf.
+  save(session: RegistrationSessionRecord): Promise<RegistrationSessionRecord>;
+
+  // Apply changes only while the stored session still has the expected values
+  updateIf(id: string, expected: RegistrationSessionChanges, changes: RegistrationSessionChanges): Promise<boolean>;
+
+  incrementVerificationCodeAttempts(id: string): Promise<void>;
+
+  // Delete the session and release any shop URL it reserved
+  delete(id: string): Promise<void>;
+
+  // Delete every expired session, returning them; their shop URL reservations go too
+  removeExpired(): Promise<RegistrationSessionRecord[]>;
+
+  // Hold a shop URL for a session until `until`; false when another session holds it
+  reserveShopUrl(shopUrl: string, sessionId: string, until: Date): Promise<boolean>;
+
+  // Whether a live reservation by a session other than exceptSessionId holds the URL
+  isShopUrlReserved(shopUrl: string, exceptSessionId?: string): Promise<boolean>;
+
+  releaseShopUrl(shopUrl: string, sessionId: string): Promise<void>;
+}
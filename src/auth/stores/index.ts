@@ -0,0 +1,32 @@
+import { config } from '@/config';
+import { getRedisClient } from '@/database/redis';
+import { logger } from '@/utils/logger';
+import { RegistrationSessionStore } from './RegistrationSessionStore';
+import { PostgresRegistrationSessionStore } from './PostgresRegistrationSessionStore';
+import { RedisRegistrationSessionStore } from './RedisRegistrationSessionStore';
+
+export * from './RegistrationSessionStore';
+
+let registrationSessionStore: RegistrationSessionStore | null = null;
+
+// The store picked by REGISTRATION_SESSION_STORE, chosen once on first use. Asking for Redis
+// without a connection falls back to Postgres rather than splitting sessions across both.
+export const getRegistrationSessionStore = (): RegistrationSessionStore => {
+  if (registrationSessionStore) {
+    return registrationSessionStore;
+  }
+
+  if (config.registration.sessionStore === 'redis') {
+    try {
+      getRedisClient();
+      registrationSessionStore = new RedisRegistrationSessionStore();
+      logger.info('Registration sessions are stored in Redis');
+      return registrationSessionStore;
+    } catch (error) {
+      logger.warn('Redis unavailable - registration sessions fall back to Postgres');
+    }
+  }
+
+  registrationSessionStore = new PostgresRegistrationSessionStore();
+  return registrationSessionStore;
+};
@@ -1,5 +1,20 @@
 export class EmailTemplates {
-  static verificationEmail(verificationUrl: string): { subject: string; html: string; text: string } {
+  static verificationEmail(verificationUrl: string, code: string | null, codeExpiresInMinutes: number): { subject: string; html: string; text: string } {
+    const codeHtml = code
+      ? `<p>Thank you for joining Celm! We're excited to help you grow your business online. To get started, enter this code on the registration page:</p>
+                
+                <div class="code-box">${code}</div>
+                
+                <p>The code expires in ${codeExpiresInMinutes} minutes. You can also verify your email address by clicking the button below.</p>`
+      : `<p>Thank you for joining Celm! We're excited to help you grow your business online. To get started, verify your email address by clicking the button below.</p>`;
+    const codeText = code
+      ? `Thank you for joining our platform. Your verification code is:
+        
+        ${code}
+        
+        The code expires in ${codeExpiresInMinutes} minutes. You can also verify your email address by visiting:`
+      : `Thank you for joining our platform. Verify your email address by visiting:`;
+
     return {
       subject: 'Verify Your Email - Celm Platform',
       html: `
@@ -53,6 +68,18 @@ export class EmailTemplates {
                 color: #4B5563; 
                 font-size: 16px; 
               }
+              .code-box { 
+                background-color: #F3F4F6; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+                text-align: center;
+                font-size: 36px;
+                font-weight: 700;
+                letter-spacing: 8px;
+                color: #1F2937;
+                font-family: 'Courier New', monospace;
+              }
               .verify-button { 
                 display: inline-block;
                 background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
@@ -111,7 +138,7 @@ export class EmailTemplates {
               
               <div class="content">
                 <h2>Verify Your Email Address</h2>
-                <p>Thank you for joining Celm! We're excited to help you grow your business online. To get started, please verify your email address by clicking the button below.</p>
+                ${codeHtml}
                 
                 <div style="text-align: center;">
                   <a href="${verificationUrl}" class="verify-button">✅ Verify Email Address</a>
@@ -148,7 +175,7 @@ export class EmailTemplates {
       text: `
         Welcome to Celm!
         
-        Thank you for joining our platform. Please verify your email address by visiting:
+        ${codeText}
         ${verificationUrl}
         
         This link will expire in 2 hours.
@@ -455,4 +482,1103 @@ export class EmailTemplates {
       `
     };
   }
-}
\ No newline at end of file
+
+  static passwordChangedEmail(firstName: string, recoveryUrl: string): { subject: string; html: string; text: string } {
+    return {
+      subject: '🔐 Your Celm Password Was Changed',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Password Changed - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .security-info { 
+                background-color: #FEE2E2; 
+                border-left: 4px solid #EF4444; 
+                padding: 20px; 
+                margin: 25px 0; 
+                border-radius: 4px;
+              }
+              .link-text { 
+                background-color: #F3F4F6; 
+                padding: 15px; 
+                border-radius: 8px; 
+                word-break: break-all; 
+                color: #4F46E5; 
+                font-size: 14px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🔐 Password Changed</h1>
+                <p>Your Celm account is secured with a new password</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>The password for your Celm account was just changed. For your security, you have been signed out of your other devices.</p>
+                
+                <div class="security-info">
+                  <h3 style="color: #DC2626; margin-bottom: 15px;">🛡️ Wasn't you?</h3>
+                  <p style="margin-bottom: 0;">If you did not make this change, reset your password immediately using the link below and contact our security team.</p>
+                </div>
+                
+                <div class="link-text">${recoveryUrl}</div>
+                
+                <p>If you made this change, no further action is required.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Password Changed - Celm Platform
+        
+        Hi ${firstName},
+        
+        The password for your Celm account was just changed.
+        For your security, you have been signed out of your other devices.
+        
+        Wasn't you? Reset your password immediately: ${recoveryUrl}
+        
+        If you have security concerns, contact: security@celm.com
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static securityAlertEmail(
+    firstName: string,
+    alert: { title: string; description: string; deviceLabel?: string; ipAddress?: string; occurredAt: Date },
+    secureAccountUrl: string
+  ): { subject: string; html: string; text: string } {
+    const deviceLine = alert.deviceLabel ? `<li style="margin-bottom: 8px;"><strong>Device:</strong> ${alert.deviceLabel}</li>` : '';
+    const ipLine = alert.ipAddress ? `<li style="margin-bottom: 8px;"><strong>IP address:</strong> ${alert.ipAddress}</li>` : '';
+
+    return {
+      subject: `⚠️ Security Alert: ${alert.title}`,
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Security Alert - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #F59E0B 0%, #D97706 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .action-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #EF4444 0%, #DC2626 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .security-info { 
+                background-color: #FEF3C7; 
+                border-left: 4px solid #F59E0B; 
+                padding: 20px; 
+                margin: 25px 0; 
+                border-radius: 4px;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>⚠️ ${alert.title}</h1>
+                <p>We noticed something unusual on your Celm account</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>${alert.description}</p>
+                
+                <div class="security-info">
+                  <h3 style="color: #B45309; margin-bottom: 15px;">🛡️ Details</h3>
+                  <ul style="color: #374151; margin-left: 20px;">
+                    <li style="margin-bottom: 8px;"><strong>Time:</strong> ${alert.occurredAt.toUTCString()}</li>
+                    ${deviceLine}
+                    ${ipLine}
+                  </ul>
+                </div>
+                
+                <div style="text-align: center;">
+                  <a href="${secureAccountUrl}" class="action-button">🔒 Secure My Account</a>
+                </div>
+                
+                <p style="margin-top: 30px;">If you have security concerns, please contact our security team immediately.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Security Alert: ${alert.title} - Celm Platform
+        
+        Hi ${firstName},
+        
+        ${alert.description}
+        
+        Time: ${alert.occurredAt.toUTCString()}
+        Device: ${alert.deviceLabel || 'Unknown'}
+        IP address: ${alert.ipAddress || 'Unknown'}
+        
+        Secure your account: ${secureAccountUrl}
+        
+        If you have security concerns, contact: security@celm.com
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static accountLockedEmail(firstName: string, unlockUrl: string, lockedUntil: Date): { subject: string; html: string; text: string } {
+    return {
+      subject: '🔒 Your Celm Account Has Been Temporarily Locked',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Account Locked - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #EF4444 0%, #DC2626 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .unlock-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .link-text { 
+                background-color: #F3F4F6; 
+                padding: 15px; 
+                border-radius: 8px; 
+                word-break: break-all; 
+                color: #4F46E5; 
+                font-size: 14px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🔒 Account Temporarily Locked</h1>
+                <p>We blocked repeated failed sign-in attempts</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>There were too many failed attempts to sign in to your Celm account, so we have locked it until <strong>${lockedUntil.toUTCString()}</strong>.</p>
+                <p>If this was you, you can unlock your account right away:</p>
+                
+                <div style="text-align: center;">
+                  <a href="${unlockUrl}" class="unlock-button">🔓 Unlock My Account</a>
+                </div>
+                
+                <p>If the button above doesn't work, copy and paste this link into your browser:</p>
+                <div class="link-text">${unlockUrl}</div>
+                
+                <div class="warning-box">
+                  <strong>⚠️ Wasn't you?</strong> Someone may be trying to guess your password. Leave your account locked and reset your password once the lock expires.
+                </div>
+                
+                <p>This unlock link can only be used once and expires in 24 hours.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Account Temporarily Locked - Celm Platform
+        
+        Hi ${firstName},
+        
+        There were too many failed attempts to sign in to your Celm account,
+        so we have locked it until ${lockedUntil.toUTCString()}.
+        
+        If this was you, unlock your account: ${unlockUrl}
+        (This link can only be used once and expires in 24 hours.)
+        
+        Wasn't you? Leave your account locked and reset your password once the lock expires.
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static oneTimeCodeEmail(firstName: string, code: string, action: string, expiresInMinutes: number): { subject: string; html: string; text: string } {
+    return {
+      subject: `${code} is your Celm verification code`,
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Verification Code - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .code-box { 
+                background-color: #F3F4F6; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+                text-align: center;
+                font-size: 36px;
+                font-weight: 700;
+                letter-spacing: 8px;
+                color: #1F2937;
+                font-family: 'Courier New', monospace;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🔐 Your Verification Code</h1>
+                <p>Use this code to ${action}</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>Enter the following code to ${action}:</p>
+                
+                <div class="code-box">${code}</div>
+                
+                <p>This code expires in ${expiresInMinutes} minutes and can only be used once.</p>
+                
+                <div class="warning-box">
+                  <strong>⚠️ Didn't request this?</strong> Someone may know your password. Don't share this code with anyone, and change your password as soon as possible.
+                </div>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Your Verification Code - Celm Platform
+        
+        Hi ${firstName},
+        
+        Enter the following code to ${action}: ${code}
+        
+        This code expires in ${expiresInMinutes} minutes and can only be used once.
+        
+        Didn't request this? Don't share this code with anyone, and change your password as soon as possible.
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static magicLinkEmail(firstName: string, loginUrl: string, expiresInMinutes: number): { subject: string; html: string; text: string } {
+    return {
+      subject: '✨ Your Celm Sign-In Link',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Sign In - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .login-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .link-text { 
+                background-color: #F3F4F6; 
+                padding: 15px; 
+                border-radius: 8px; 
+                word-break: break-all; 
+                color: #4F46E5; 
+                font-size: 14px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>✨ Sign In to Celm</h1>
+                <p>No password needed</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>Click the button below to sign in to your Celm account.</p>
+                
+                <div style="text-align: center;">
+                  <a href="${loginUrl}" class="login-button">🚀 Sign In</a>
+                </div>
+                
+                <p>If the button above doesn't work, copy and paste this link into your browser:</p>
+                <div class="link-text">${loginUrl}</div>
+                
+                <div class="warning-box">
+                  <strong>⏰ Time Sensitive:</strong> This link expires in <strong>${expiresInMinutes} minutes</strong> and can only be used once.
+                </div>
+                
+                <p><strong>Didn't request this?</strong><br>
+                You can safely ignore this email. Nobody can sign in without the link.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Sign In to Celm - Celm Platform
+        
+        Hi ${firstName},
+        
+        Sign in to your Celm account: ${loginUrl}
+        
+        This link expires in ${expiresInMinutes} minutes and can only be used once.
+        
+        Didn't request this? You can safely ignore this email.
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static emailChangeConfirmationEmail(firstName: string, newEmail: string, confirmUrl: string, expiresInMinutes: number): { subject: string; html: string; text: string } {
+    return {
+      subject: '📧 Confirm Your New Celm Email Address',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Confirm Email Change - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .confirm-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .link-text { 
+                background-color: #F3F4F6; 
+                padding: 15px; 
+                border-radius: 8px; 
+                word-break: break-all; 
+                color: #4F46E5; 
+                font-size: 14px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>📧 Confirm Your New Email</h1>
+                <p>One click to finish the change</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>You asked to use <strong>${newEmail}</strong> for your Celm account. Click the button below to confirm this address.</p>
+                
+                <div style="text-align: center;">
+                  <a href="${confirmUrl}" class="confirm-button">✅ Confirm Email</a>
+                </div>
+                
+                <p>If the button above doesn't work, copy and paste this link into your browser:</p>
+                <div class="link-text">${confirmUrl}</div>
+                
+                <div class="warning-box">
+                  <strong>⏰ Time Sensitive:</strong> This link expires in <strong>${expiresInMinutes} minutes</strong> and can only be used once.
+                </div>
+                
+                <p><strong>Didn't request this?</strong><br>
+                You can safely ignore this email. The account's email address won't change without the link.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Confirm Your New Email - Celm Platform
+        
+        Hi ${firstName},
+        
+        You asked to use ${newEmail} for your Celm account. Confirm this address: ${confirmUrl}
+        
+        This link expires in ${expiresInMinutes} minutes and can only be used once.
+        
+        Didn't request this? You can safely ignore this email. The account's email address won't change without the link.
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static passwordlessAccountEmail(firstName: string, providers: string[], loginUrl: string): { subject: string; html: string; text: string } {
+    const signInWith = providers.length > 0 ? providers.join(' or ') : 'your sign-in provider';
+
+    return {
+      subject: '🔐 How to Sign In to Celm',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>How to Sign In - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .signin-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🔐 Your Account Has No Password</h1>
+                <p>Sign in the way you signed up</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi ${firstName},</h2>
+                <p>Someone asked to reset the password for your Celm account. Your account doesn't use a password: you sign in with <strong>${signInWith}</strong>.</p>
+                
+                <div style="text-align: center;">
+                  <a href="${loginUrl}" class="signin-button">➡️ Go to Sign In</a>
+                </div>
+                
+                <p>You can also ask for a one-time sign-in link on the sign-in page.</p>
+                
+                <p><strong>Didn't request this?</strong><br>
+                You can safely ignore this email. Nothing about your account has changed.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>Celm Platform Security Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        How to Sign In - Celm Platform
+        
+        Hi ${firstName},
+        
+        Someone asked to reset the password for your Celm account. Your account doesn't use a password: you sign in with ${signInWith}.
+        
+        Sign in here: ${loginUrl}
+        
+        You can also ask for a one-time sign-in link on the sign-in page.
+        
+        Didn't request this? You can safely ignore this email. Nothing about your account has changed.
+        
+        Celm Security Team
+      `
+    };
+  }
+
+  static registrationResumeEmail(resumeUrl: string, currentStep: number, totalSteps: number, expiresInMinutes: number): { subject: string; html: string; text: string } {
+    return {
+      subject: '🛍️ Continue Setting Up Your Celm Shop',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Continue Registration - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .resume-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .link-text { 
+                background-color: #F3F4F6; 
+                padding: 15px; 
+                border-radius: 8px; 
+                word-break: break-all; 
+                color: #4F46E5; 
+                font-size: 14px;
+                margin: 20px 0;
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🛍️ Pick Up Where You Left Off</h1>
+                <p>Step ${currentStep} of ${totalSteps}</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi there,</h2>
+                <p>Your Celm registration is saved. Click the button below to continue on this device.</p>
+                
+                <div style="text-align: center;">
+                  <a href="${resumeUrl}" class="resume-button">🚀 Continue Registration</a>
+                </div>
+                
+                <p>If the button above doesn't work, copy and paste this link into your browser:</p>
+                <div class="link-text">${resumeUrl}</div>
+                
+                <div class="warning-box">
+                  <strong>⏰ Time Sensitive:</strong> This link expires in <strong>${expiresInMinutes} minutes</strong> and can only be used once.
+                </div>
+                
+                <p><strong>Didn't request this?</strong><br>
+                You can safely ignore this email. Your registration can't be continued without the link.</p>
+              </div>
+              
+              <div class="footer">
+                <p><strong>The Celm Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Continue Your Registration - Celm Platform
+        
+        Hi there,
+        
+        Your Celm registration is saved at step ${currentStep} of ${totalSteps}.
+        Continue here: ${resumeUrl}
+        
+        This link expires in ${expiresInMinutes} minutes and can only be used once.
+        
+        Didn't request this? You can safely ignore this email.
+        
+        The Celm Team
+      `
+    };
+  }
+
+  static registrationReminderEmail(resumeUrl: string, unsubscribeUrl: string, currentStep: number, totalSteps: number, expiresInMinutes: number): { subject: string; html: string; text: string } {
+    return {
+      subject: '🛍️ Finish Setting Up Your Celm Shop',
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Finish Setting Up Your Shop - Celm</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body { 
+                font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; 
+                line-height: 1.6; 
+                color: #333; 
+                background-color: #f4f4f4;
+              }
+              .email-container { 
+                max-width: 600px; 
+                margin: 20px auto; 
+                background: white; 
+                border-radius: 10px; 
+                overflow: hidden; 
+                box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+              }
+              .header { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 40px 20px; 
+                text-align: center; 
+              }
+              .content { padding: 40px 30px; }
+              .content p { 
+                margin-bottom: 20px; 
+                color: #4B5563; 
+                font-size: 16px; 
+              }
+              .progress-bar { 
+                background-color: #E5E7EB; 
+                border-radius: 9999px; 
+                height: 10px; 
+                margin: 10px 0 25px; 
+                overflow: hidden;
+              }
+              .progress-fill { 
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                height: 10px; 
+              }
+              .resume-button { 
+                display: inline-block;
+                background: linear-gradient(135deg, #4F46E5 0%, #7C3AED 100%); 
+                color: white; 
+                padding: 16px 32px; 
+                text-decoration: none; 
+                border-radius: 8px; 
+                font-weight: 600;
+                font-size: 16px;
+                margin: 20px 0;
+              }
+              .warning-box { 
+                background-color: #FEF3C7; 
+                border: 1px solid #F59E0B; 
+                border-radius: 8px; 
+                padding: 20px; 
+                margin: 25px 0; 
+              }
+              .footer { 
+                background-color: #F9FAFB; 
+                text-align: center; 
+                padding: 30px 20px; 
+                color: #6B7280; 
+                font-size: 14px; 
+                border-top: 1px solid #E5E7EB;
+              }
+              .footer a { color: #6B7280; }
+            </style>
+          </head>
+          <body>
+            <div class="email-container">
+              <div class="header">
+                <h1>🛍️ Your Shop Is Almost Ready</h1>
+                <p>Step ${currentStep} of ${totalSteps}</p>
+              </div>
+              
+              <div class="content">
+                <h2>Hi there,</h2>
+                <p>You started setting up your shop on Celm but didn't get to finish. Everything you've entered so far is saved.</p>
+                
+                <div class="progress-bar">
+                  <div class="progress-fill" style="width: ${Math.round(((currentStep - 1) / totalSteps) * 100)}%;"></div>
+                </div>
+                
+                <div style="text-align: center;">
+                  <a href="${resumeUrl}" class="resume-button">🚀 Finish Setting Up</a>
+                </div>
+                
+                <div class="warning-box">
+                  <strong>⏰ Don't lose your progress:</strong> This link can be used once and expires in <strong>${expiresInMinutes} minutes</strong>, after which your registration will need to be started again.
+                </div>
+              </div>
+              
+              <div class="footer">
+                <p><strong>The Celm Team</strong></p>
+                <p>Contact us: security@celm.com | Support: help@celm.com</p>
+                <p>Don't want these reminders? <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+                <p>&copy; ${new Date().getFullYear()} Celm Platform. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+        Finish Setting Up Your Shop - Celm Platform
+        
+        Hi there,
+        
+        You started setting up your shop on Celm but didn't get to finish.
+        Your registration is saved at step ${currentStep} of ${totalSteps}.
+        
+        Finish setting up: ${resumeUrl}
+        
+        This link can be used once and expires in ${expiresInMinutes} minutes.
+        
+        Don't want these reminders? Unsubscribe: ${unsubscribeUrl}
+        
+        The Celm Team
+      `
+    };
+  }
+}
@@ -4,7 +4,10 @@ export enum RegistrationStep {
   BUSINESS_TYPE = 3,
   SHOP_DETAILS = 4,
   LOCATION = 5,
-  COMPLETE = 6
+  COMPLETE = 6,
+  // Conditional steps; their place in the flow comes from the step registry, not these values
+  SERVICE_DETAILS = 7,
+  PRODUCT_DETAILS = 8
 }
 
 export enum BusinessTypeOption {
@@ -13,8 +16,27 @@ export enum BusinessTypeOption {
   BOTH = 'both'
 }
 
+export enum FulfilmentMethod {
+  DELIVERY = 'delivery',
+  PICKUP = 'pickup',
+  SHIPPING = 'shipping',
+  DIGITAL = 'digital'
+}
+
+export enum TwoFactorMethod {
+  TOTP = 'totp',
+  EMAIL = 'email'
+}
+
+// Authentication method references carried in the "amr" token claim
+// 'email' is an emailed one-time code; 'link' is a magic sign-in link
+export type AuthMethod = 'pwd' | 'otp' | 'email' | 'link' | 'recovery' | 'oauth' | 'mfa';
+
+// Built-in sign-in providers; custom OIDC providers use their configured name
 export enum OAuthProvider {
-  GOOGLE = 'google'  // Make sure it's lowercase to match your usage
+  GOOGLE = 'google',  // Make sure it's lowercase to match your usage
+  MICROSOFT = 'microsoft',
+  APPLE = 'apple'
 }
 
 export interface RegistrationSession {
@@ -26,20 +48,29 @@ export interface RegistrationSession {
   totalSteps: number;
   emailVerified: boolean;
   verificationToken?: string;
-  oauthProvider?: OAuthProvider;
+  oauthProvider?: string;
   oauthId?: string;
-  oauthData?: GoogleProfile;
+  oauthData?: OAuthProfile;
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One entry in a registration session's step history, kept for debugging
+export interface RegistrationStepEvent {
+  step: RegistrationStep;
+  action: 'submitted' | 'edited' | 'invalidated';
+  at: string;
+}
+
 export interface RegistrationStepData {
   step1?: EmailStepData;
   step2?: PersonalInfoStepData;
   step3?: BusinessTypeStepData;
   step4?: ShopDetailsStepData;
   step5?: LocationStepData;
+  step7?: ServiceDetailsStepData;
+  step8?: ProductDetailsStepData;
 }
 
 export interface EmailStepData {
@@ -64,6 +95,20 @@ export interface ShopDetailsStepData {
   shopUrl: string;
 }
 
+export interface ServiceDetailsStepData {
+  services: string[];
+  availability: {
+    days: string[];
+    opensAt: string; // HH:mm
+    closesAt: string; // HH:mm
+  };
+}
+
+export interface ProductDetailsStepData {
+  categories: string[];
+  fulfilmentMethods: FulfilmentMethod[];
+}
+
 export interface LocationStepData {
   country: string;
   state: string;
@@ -71,7 +116,8 @@ export interface LocationStepData {
   address: string;
 }
 
-export interface GoogleProfile {
+// Profile from any OAuth/OIDC provider, using Google's field names
+export interface OAuthProfile {
   id: string;
   email: string;
   name: string;
@@ -81,6 +127,8 @@ export interface GoogleProfile {
   verified_email?: boolean;
 }
 
+export type GoogleProfile = OAuthProfile;
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -105,8 +153,37 @@ export interface UserProfile {
 export interface RefreshToken {
   id: string;
   userId: string;
+  familyId: string;
   token: string;
+  userAgent?: string;
+  ipAddress?: string;
+  deviceLabel?: string;
   expiresAt: Date;
   createdAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
   isRevoked: boolean;
 }
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+  deviceLabel?: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  deviceLabel: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// When and how the user last proved who they are ("auth_time" and "amr" claims)
+export interface AuthenticationInfo {
+  authTime: number;
+  amr: AuthMethod[];
+}
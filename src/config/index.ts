@@ -1,7 +1,150 @@
 import dotenv from 'dotenv';
+import Joi from 'joi';
 
 dotenv.config();
 
+// Maps profile fields to claim names in a provider's ID token
+export interface OidcClaimMapping {
+  subject: string;
+  email: string;
+  emailVerified: string;
+  name: string;
+  givenName: string;
+  familyName: string;
+  picture: string;
+}
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string | string[];
+  clientId: string;
+  jwksUri: string;
+  claims: OidcClaimMapping;
+  // Needed only for the server-side authorization code flow
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  clientSecret?: string;
+  scopes?: string;
+  responseMode?: 'query' | 'form_post';
+}
+
+const DEFAULT_OIDC_CLAIMS: OidcClaimMapping = {
+  subject: 'sub',
+  email: 'email',
+  emailVerified: 'email_verified',
+  name: 'name',
+  givenName: 'given_name',
+  familyName: 'family_name',
+  picture: 'picture',
+};
+
+type CustomOidcProvider = Omit<OidcProviderConfig, 'claims'> & { claims?: Partial<OidcClaimMapping> };
+
+const customOidcProviderSchema = Joi.object({
+  name: Joi.string().trim().required(),
+  issuer: Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()).min(1)).required(),
+  clientId: Joi.string().required(),
+  jwksUri: Joi.string().uri().required(),
+  claims: Joi.object(Object.fromEntries(Object.keys(DEFAULT_OIDC_CLAIMS).map((claim) => [claim, Joi.string()]))),
+  authorizationEndpoint: Joi.string().uri(),
+  tokenEndpoint: Joi.string().uri(),
+  clientSecret: Joi.string(),
+  scopes: Joi.string(),
+  responseMode: Joi.string().valid('query', 'form_post'),
+});
+
+// Checked here so a malformed OIDC_PROVIDERS stops the server at startup, naming the bad entry
+const loadCustomOidcProviders = (): CustomOidcProvider[] => {
+  let custom: unknown;
+  try {
+    custom = JSON.parse(process.env.OIDC_PROVIDERS!);
+  } catch (error) {
+    throw new Error(`Invalid OIDC_PROVIDERS: not valid JSON (${(error as Error).message})`);
+  }
+
+  if (!Array.isArray(custom)) {
+    throw new Error('Invalid OIDC_PROVIDERS: expected a JSON array of providers');
+  }
+
+  return custom.map((provider, index) => {
+    const { error, value } = customOidcProviderSchema.validate(provider);
+    if (error) {
+      const name = typeof provider?.name === 'string' ? `"${provider.name}"` : `at index ${index}`;
+      throw new Error(`Invalid OIDC_PROVIDERS entry ${name}: ${error.message}`);
+    }
+    return value as CustomOidcProvider;
+  });
+};
+
+// Built-in providers are enabled by their client id; OIDC_PROVIDERS adds custom IdPs as a JSON array
+const loadOidcProviders = (): OidcProviderConfig[] => {
+  const providers: OidcProviderConfig[] = [];
+
+  if (process.env.GOOGLE_CLIENT_ID) {
+    providers.push({
+      name: 'google',
+      issuer: ['https://accounts.google.com', 'accounts.google.com'],
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+      claims: DEFAULT_OIDC_CLAIMS,
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    });
+  }
+
+  if (process.env.MICROSOFT_CLIENT_ID) {
+    const tenantId = process.env.MICROSOFT_TENANT_ID || '9188040d-6c67-4c5b-b112-36a304b66dad'; // personal accounts
+    providers.push({
+      name: 'microsoft',
+      issuer: `https://login.microsoftonline.com/${tenantId}/v2.0`,
+      clientId: process.env.MICROSOFT_CLIENT_ID,
+      jwksUri: `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`,
+      // Optional claim; the app registration must be set up to emit it (see .env.example)
+      claims: { ...DEFAULT_OIDC_CLAIMS, emailVerified: 'xms_edov' },
+      authorizationEndpoint: `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/authorize`,
+      tokenEndpoint: `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`,
+      clientSecret: process.env.MICROSOFT_CLIENT_SECRET,
+    });
+  }
+
+  if (process.env.APPLE_CLIENT_ID) {
+    providers.push({
+      name: 'apple',
+      issuer: 'https://appleid.apple.com',
+      clientId: process.env.APPLE_CLIENT_ID,
+      jwksUri: 'https://appleid.apple.com/auth/keys',
+      claims: DEFAULT_OIDC_CLAIMS,
+      authorizationEndpoint: 'https://appleid.apple.com/auth/authorize',
+      tokenEndpoint: 'https://appleid.apple.com/auth/token',
+      // Apple's client secret is a signed JWT generated out of band
+      clientSecret: process.env.APPLE_CLIENT_SECRET,
+      // Apple only posts back to the callback when email is requested
+      responseMode: 'form_post',
+    });
+  }
+
+  if (process.env.OIDC_PROVIDERS) {
+    for (const provider of loadCustomOidcProviders()) {
+      providers.push({ ...provider, name: provider.name.toLowerCase(), claims: { ...DEFAULT_OIDC_CLAIMS, ...provider.claims } });
+    }
+  }
+
+  return providers;
+};
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'EdDSA'] as const;
+export type JwtSigningAlgorithm = typeof JWT_ALGORITHMS[number];
+
+// Checked here so a typo in JWT_ALGORITHM stops the server at startup rather than at the first sign-in
+const loadJwtAlgorithm = (): JwtSigningAlgorithm => {
+  const algorithm = process.env.JWT_ALGORITHM || 'HS256';
+  if (!(JWT_ALGORITHMS as readonly string[]).includes(algorithm)) {
+    throw new Error(`Invalid JWT_ALGORITHM "${algorithm}"; expected one of ${JWT_ALGORITHMS.join(', ')}`);
+  }
+  return algorithm as JwtSigningAlgorithm;
+};
+
 export interface Config {
   server: {
     port: number;
@@ -31,11 +174,22 @@ export interface Config {
     expiresIn: string;
     refreshSecret: string;
     refreshExpiresIn: string;
+    refreshReuseGraceSeconds: number;
+    algorithm: JwtSigningAlgorithm;
+    keysDir: string;
+    activeKeyId: string;
   };
   google: {
     clientId: string;
     clientSecret: string;
   };
+  oidc: {
+    providers: OidcProviderConfig[];
+  };
+  oauth: {
+    callbackBaseUrl: string;
+    frontendCallbackUrl: string;
+  };
   email: {
     host: string;
     port: number;
@@ -55,9 +209,46 @@ export interface Config {
   security: {
     bcryptRounds: number;
     sessionSecret: string;
+    encryptionKey: string;
+    twoFactor: {
+      issuer: string;
+      window: number;
+      challengeExpiresIn: string;
+    };
+    emailOtp: {
+      expiryMinutes: number;
+      maxAttempts: number;
+      resendCooldownSeconds: number;
+    };
+    stepUp: {
+      maxAgeMinutes: number;
+    };
+    lockout: {
+      maxFailedAttempts: number;
+      durationMinutes: number;
+      backoffAfterAttempts: number;
+      backoffBaseSeconds: number;
+    };
   };
   registration: {
+    sessionStore: 'postgres' | 'redis';
     sessionExpiryHours: number;
+    maxSessionLifetimeHours: number;
+    slidingExpiry: boolean;
+    resumeLinkExpiryMinutes: number;
+    verificationResendCooldownSeconds: number;
+    verificationResendDailyLimit: number;
+    verificationCodeExpiryMinutes: number;
+    verificationCodeMaxAttempts: number;
+    shopUrlReservationMinutes: number;
+    cleanupIntervalMinutes: number;
+    reminders: {
+      enabled: boolean;
+      idleMinutes: number;
+      maxPerSession: number;
+      checkIntervalMinutes: number;
+      batchSize: number;
+    };
     allowOAuth: boolean;
   };
 }
@@ -91,11 +282,23 @@ export const config: Config = {
     expiresIn: process.env.JWT_EXPIRES_IN || '1d',
     refreshSecret: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-should-be-very-long-and-secure',
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    // Short on purpose: a replay inside the window from the same user agent is not detected (see .env.example)
+    refreshReuseGraceSeconds: parseInt(process.env.JWT_REFRESH_REUSE_GRACE_SECONDS || '10'),
+    algorithm: loadJwtAlgorithm(),
+    keysDir: process.env.JWT_KEYS_DIR || 'keys',
+    activeKeyId: process.env.JWT_ACTIVE_KEY_ID || '',
   },
   google: {
     clientId: process.env.GOOGLE_CLIENT_ID || '',
     clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
   },
+  oidc: {
+    providers: loadOidcProviders(),
+  },
+  oauth: {
+    callbackBaseUrl: process.env.OAUTH_CALLBACK_BASE_URL || `http://localhost:${process.env.PORT || '3000'}/api/${process.env.API_VERSION || 'v1'}/auth/oauth`,
+    frontendCallbackUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/auth/oauth/callback`,
+  },
   email: {
     host: process.env.SMTP_HOST || 'localhost',
     port: parseInt(process.env.SMTP_PORT || '1025'),
@@ -115,9 +318,46 @@ export const config: Config = {
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12'),
     sessionSecret: process.env.SESSION_SECRET || 'your-session-secret-key-should-be-very-long-and-secure',
+    encryptionKey: process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET || 'your-encryption-key-should-be-very-long-and-secure',
+    twoFactor: {
+      issuer: process.env.TWO_FACTOR_ISSUER || 'Celm',
+      window: parseInt(process.env.TWO_FACTOR_WINDOW || '1'),
+      challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+    },
+    emailOtp: {
+      expiryMinutes: parseInt(process.env.EMAIL_OTP_EXPIRY_MINUTES || '10'),
+      maxAttempts: parseInt(process.env.EMAIL_OTP_MAX_ATTEMPTS || '5'),
+      resendCooldownSeconds: parseInt(process.env.EMAIL_OTP_RESEND_COOLDOWN_SECONDS || '60'),
+    },
+    stepUp: {
+      maxAgeMinutes: parseInt(process.env.STEP_UP_MAX_AGE_MINUTES || '10'),
+    },
+    lockout: {
+      maxFailedAttempts: parseInt(process.env.LOCKOUT_MAX_FAILED_ATTEMPTS || '5'),
+      durationMinutes: parseInt(process.env.LOCKOUT_DURATION_MINUTES || '15'),
+      backoffAfterAttempts: parseInt(process.env.LOCKOUT_BACKOFF_AFTER_ATTEMPTS || '3'),
+      backoffBaseSeconds: parseInt(process.env.LOCKOUT_BACKOFF_BASE_SECONDS || '5'),
+    },
   },
   registration: {
+    sessionStore: process.env.REGISTRATION_SESSION_STORE === 'redis' ? 'redis' : 'postgres',
     sessionExpiryHours: parseInt(process.env.REGISTRATION_SESSION_EXPIRY_HOURS || '2'),
+    maxSessionLifetimeHours: parseInt(process.env.REGISTRATION_MAX_SESSION_LIFETIME_HOURS || '24'),
+    slidingExpiry: process.env.REGISTRATION_SLIDING_EXPIRY === 'true',
+    resumeLinkExpiryMinutes: parseInt(process.env.REGISTRATION_RESUME_LINK_EXPIRY_MINUTES || '30'),
+    verificationResendCooldownSeconds: parseInt(process.env.REGISTRATION_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60'),
+    verificationResendDailyLimit: parseInt(process.env.REGISTRATION_VERIFICATION_RESEND_DAILY_LIMIT || '5'),
+    verificationCodeExpiryMinutes: parseInt(process.env.REGISTRATION_VERIFICATION_CODE_EXPIRY_MINUTES || '30'),
+    verificationCodeMaxAttempts: parseInt(process.env.REGISTRATION_VERIFICATION_CODE_MAX_ATTEMPTS || '5'),
+    shopUrlReservationMinutes: parseInt(process.env.REGISTRATION_SHOP_URL_RESERVATION_MINUTES || '30'),
+    cleanupIntervalMinutes: parseInt(process.env.REGISTRATION_CLEANUP_INTERVAL_MINUTES || '15'),
+    reminders: {
+      enabled: process.env.REGISTRATION_REMINDERS_ENABLED === 'true',
+      idleMinutes: parseInt(process.env.REGISTRATION_REMINDER_IDLE_MINUTES || '30'),
+      maxPerSession: parseInt(process.env.REGISTRATION_REMINDER_MAX_PER_SESSION || '2'),
+      checkIntervalMinutes: parseInt(process.env.REGISTRATION_REMINDER_CHECK_INTERVAL_MINUTES || '5'),
+      batchSize: parseInt(process.env.REGISTRATION_REMINDER_BATCH_SIZE || '100'),
+    },
     allowOAuth: process.env.ALLOW_OAUTH === 'true',
   },
 };
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Record where each session (refresh token) came from
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.string('user_agent', 512).nullable();
+    table.string('ip_address', 64).nullable();
+    table.string('device_label').nullable();
+    table.timestamp('last_used_at').defaultTo(knex.fn.now());
+  });
+
+  console.log('✅ Session metadata added to refresh tokens');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.dropColumn('last_used_at');
+    table.dropColumn('device_label');
+    table.dropColumn('ip_address');
+    table.dropColumn('user_agent');
+  });
+}
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Group refresh tokens into families (one per login) and keep rotated tokens for reuse detection
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.uuid('family_id').nullable();
+    table.timestamp('revoked_at').nullable();
+  });
+
+  // Existing tokens each become their own family
+  await knex('refresh_tokens').update({ family_id: knex.ref('id') });
+
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.uuid('family_id').notNullable().alter();
+    table.index(['family_id']);
+  });
+
+  console.log('✅ Token families added to refresh tokens');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Rotated tokens are meaningless without families
+  await knex('refresh_tokens').whereNotNull('revoked_at').del();
+
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.dropIndex(['family_id']);
+    table.dropColumn('revoked_at');
+    table.dropColumn('family_id');
+  });
+}
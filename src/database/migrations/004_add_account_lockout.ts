@@ -0,0 +1,40 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Per-account failed login tracking
+  await knex.schema.alterTable('users', (table) => {
+    table.integer('failed_login_attempts').defaultTo(0);
+    table.timestamp('last_failed_login_at').nullable();
+    table.timestamp('locked_until').nullable();
+
+    table.index(['locked_until']);
+  });
+
+  // One-time unlock links sent when an account gets locked
+  await knex.schema.createTable('account_unlocks', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable();
+    table.string('token').notNullable();
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key and indexes
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id']);
+    table.index(['token']);
+    table.index(['expires_at']);
+  });
+
+  console.log('✅ Account lockout schema created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('account_unlocks');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropIndex(['locked_until']);
+    table.dropColumn('locked_until');
+    table.dropColumn('last_failed_login_at');
+    table.dropColumn('failed_login_attempts');
+  });
+}
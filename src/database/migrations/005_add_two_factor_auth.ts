@@ -0,0 +1,40 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // TOTP secrets are stored encrypted; the pending secret holds an unconfirmed enrollment
+  await knex.schema.alterTable('users', (table) => {
+    table.boolean('two_factor_enabled').defaultTo(false);
+    table.text('two_factor_secret').nullable();
+    table.text('two_factor_pending_secret').nullable();
+    table.bigInteger('two_factor_last_used_step').nullable();
+    table.timestamp('two_factor_enabled_at').nullable();
+  });
+
+  // Hashed one-time recovery codes
+  await knex.schema.createTable('two_factor_recovery_codes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable();
+    table.string('code_hash').notNullable();
+    table.timestamp('used_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key and indexes
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id']);
+    table.index(['code_hash']);
+  });
+
+  console.log('✅ Two-factor authentication schema created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('two_factor_recovery_codes');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('two_factor_enabled_at');
+    table.dropColumn('two_factor_last_used_step');
+    table.dropColumn('two_factor_pending_secret');
+    table.dropColumn('two_factor_secret');
+    table.dropColumn('two_factor_enabled');
+  });
+}
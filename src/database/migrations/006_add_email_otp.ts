@@ -0,0 +1,36 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Which second factor a user enrolled; existing enrollments are all TOTP
+  await knex.schema.alterTable('users', (table) => {
+    table.string('two_factor_method', 16).nullable();
+  });
+
+  await knex('users').where('two_factor_enabled', true).update({ two_factor_method: 'totp' });
+
+  // Hashed one-time codes sent by email, one live code per user and purpose
+  await knex.schema.createTable('email_otp_codes', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable();
+    table.string('purpose', 32).notNullable();
+    table.string('code_hash').notNullable();
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key and indexes
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.unique(['user_id', 'purpose']);
+    table.index(['expires_at']);
+  });
+
+  console.log('✅ Email one-time code schema created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('email_otp_codes');
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('two_factor_method');
+  });
+}
@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Single-use passwordless sign-in links, hashed at rest like password resets
+  await knex.schema.createTable('magic_links', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable();
+    table.string('token').notNullable();
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key and indexes
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.index(['user_id']);
+    table.index(['token']);
+    table.index(['expires_at']);
+  });
+
+  console.log('✅ Magic links table created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('magic_links');
+}
@@ -0,0 +1,57 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // External sign-in accounts; a user can hold one per provider alongside a password
+  await knex.schema.createTable('user_identities', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('user_id').notNullable();
+    table.string('provider', 32).notNullable();
+    table.string('provider_user_id').notNullable();
+    table.string('email').nullable();
+    table.timestamp('last_used_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key and indexes
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+    table.unique(['provider', 'provider_user_id']);
+    table.unique(['user_id', 'provider']);
+  });
+
+  // Move the single provider pair off users
+  await knex.raw(`
+    INSERT INTO user_identities (user_id, provider, provider_user_id, email, created_at)
+    SELECT id, oauth_provider, oauth_id, email, created_at
+    FROM users
+    WHERE oauth_provider IS NOT NULL AND oauth_id IS NOT NULL
+  `);
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropIndex(['oauth_provider', 'oauth_id']);
+    table.dropColumn('oauth_provider');
+    table.dropColumn('oauth_id');
+  });
+
+  console.log('✅ User identities table created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.string('oauth_provider').nullable();
+    table.string('oauth_id').nullable();
+    table.index(['oauth_provider', 'oauth_id']);
+  });
+
+  // Only one provider fits back on users; keep the oldest link
+  await knex.raw(`
+    UPDATE users
+    SET oauth_provider = identity.provider, oauth_id = identity.provider_user_id
+    FROM (
+      SELECT DISTINCT ON (user_id) user_id, provider, provider_user_id
+      FROM user_identities
+      ORDER BY user_id, created_at
+    ) AS identity
+    WHERE users.id = identity.user_id
+  `);
+
+  await knex.schema.dropTableIfExists('user_identities');
+}
@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Single-use links that hand an in-progress registration to another device, hashed at rest
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.string('resume_token').nullable();
+    table.timestamp('resume_token_expires_at').nullable();
+
+    table.index(['resume_token']);
+  });
+
+  console.log('✅ Registration resume token columns added successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.dropIndex(['resume_token']);
+    table.dropColumn('resume_token');
+    table.dropColumn('resume_token_expires_at');
+  });
+}
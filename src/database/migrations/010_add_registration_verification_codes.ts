@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // 6-digit email verification codes, sent alongside the link and hashed at rest
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.string('verification_code').nullable();
+    table.integer('verification_code_attempts').notNullable().defaultTo(0);
+    table.timestamp('verification_code_expires_at').nullable();
+  });
+
+  console.log('✅ Registration verification code columns added successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.dropColumn('verification_code');
+    table.dropColumn('verification_code_attempts');
+    table.dropColumn('verification_code_expires_at');
+  });
+}
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Details collected by the business-type specific onboarding steps
+  await knex.schema.alterTable('users', (table) => {
+    table.json('service_details').nullable(); // services, availability
+    table.json('product_details').nullable(); // categories, fulfilmentMethods
+  });
+
+  console.log('✅ Business type details added to users successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('service_details');
+    table.dropColumn('product_details');
+  });
+}
@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Submitted, edited and invalidated steps per registration session, for debugging
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.json('step_history').defaultTo('[]');
+  });
+
+  console.log('✅ Registration step history added successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.dropColumn('step_history');
+  });
+}
@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Registration funnel events; kept after the session row is deleted
+  await knex.schema.createTable('registration_events', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('session_id').notNullable();
+    table.string('event', 32).notNullable(); // started, verified, step_completed, completed, expired
+    table.integer('step').notNullable().defaultTo(0); // RegistrationStep for step_completed, 0 otherwise
+    table.string('source', 16).notNullable(); // email, oauth
+    table.string('business_type').nullable();
+    table.timestamp('occurred_at').notNullable().defaultTo(knex.fn.now());
+
+    // Each event happens at most once per session
+    table.unique(['session_id', 'event', 'step']);
+    table.index(['event', 'occurred_at']);
+  });
+
+  console.log('✅ Registration events table created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('registration_events');
+}
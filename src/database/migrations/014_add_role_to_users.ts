@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Access to admin endpoints such as registration analytics
+  await knex.schema.alterTable('users', (table) => {
+    table.string('role', 16).notNullable().defaultTo('user'); // user, admin, super_admin
+  });
+
+  console.log('✅ User roles added successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('role');
+  });
+}
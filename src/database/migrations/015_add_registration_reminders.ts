@@ -0,0 +1,29 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // "Finish setting up your shop" reminders sent for an idle registration
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.integer('reminders_sent').notNullable().defaultTo(0);
+    table.timestamp('last_reminder_at').nullable();
+
+    table.index(['updated_at']);
+  });
+
+  // Addresses that unsubscribed from registration reminders; outlives their sessions
+  await knex.schema.createTable('registration_reminder_opt_outs', (table) => {
+    table.string('email').primary();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+  });
+
+  console.log('✅ Registration reminder columns and opt-out table created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('registration_reminder_opt_outs');
+
+  await knex.schema.alterTable('registration_sessions', (table) => {
+    table.dropIndex(['updated_at']);
+    table.dropColumn('reminders_sent');
+    table.dropColumn('last_reminder_at');
+  });
+}
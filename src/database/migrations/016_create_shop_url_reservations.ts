@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Shop URLs held by in-progress registrations; rows past expires_at are free to take over
+  await knex.schema.createTable('shop_url_reservations', (table) => {
+    table.string('shop_url').primary();
+    table.uuid('session_id').notNullable();
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.index(['session_id']);
+    table.index(['expires_at']);
+  });
+
+  console.log('✅ Shop URL reservations table created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('shop_url_reservations');
+}
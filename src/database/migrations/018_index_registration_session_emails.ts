@@ -0,0 +1,12 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Registration sessions are looked up by email case-insensitively
+  await knex.raw('CREATE INDEX registration_sessions_email_lower_index ON registration_sessions (LOWER(email))');
+
+  console.log('✅ Registration session email index created successfully');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS registration_sessions_email_lower_index');
+}
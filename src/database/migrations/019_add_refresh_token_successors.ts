@@ -0,0 +1,16 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // The token a rotation issued, so a concurrent refresh can be told apart from a replay
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.uuid('replaced_by').nullable();
+  });
+
+  console.log('✅ Refresh token successors added');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('refresh_tokens', (table) => {
+    table.dropColumn('replaced_by');
+  });
+}
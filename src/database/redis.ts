@@ -66,6 +66,11 @@ export class RedisService {
     this.client = getRedisClient();
   }
 
+  // Commands queue while the client is reconnecting, so callers that must not block check this first
+  isReady(): boolean {
+    return this.client.isReady;
+  }
+
   async get(key: string): Promise<string | null> {
     try {
       return await this.client.get(key);
@@ -89,6 +94,65 @@ export class RedisService {
     }
   }
 
+  // Read and remove a key in one step, for one-time values
+  async getAndDelete(key: string): Promise<string | null> {
+    try {
+      return await this.client.getDel(key);
+    } catch (error) {
+      logger.error(`Redis GETDEL error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Set only when the key is missing; false when it already exists
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    try {
+      const result = await this.client.set(key, value, { NX: true, EX: ttl });
+      return result === 'OK';
+    } catch (error) {
+      logger.error(`Redis SET NX error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // Delete a key only while it still holds the given value, e.g. to release a lock this process owns
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    try {
+      const result = await this.client.eval(
+        "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end",
+        { keys: [key], arguments: [value] }
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error(`Redis conditional DEL error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // Increment a counter, starting its expiry when it is first created
+  async increment(key: string, ttl?: number): Promise<number | null> {
+    try {
+      const value = await this.client.incr(key);
+      if (ttl && value === 1) {
+        await this.client.expire(key, ttl);
+      }
+      return value;
+    } catch (error) {
+      logger.error(`Redis INCR error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Seconds until a key expires (-1 without expiry, -2 when missing)
+  async ttl(key: string): Promise<number> {
+    try {
+      return await this.client.ttl(key);
+    } catch (error) {
+      logger.error(`Redis TTL error for key ${key}:`, error);
+      return -2;
+    }
+  }
+
   async del(key: string): Promise<boolean> {
     try {
       await this.client.del(key);
@@ -159,4 +223,19 @@ export class RedisService {
   }
 }
 
+let optionalRedisService: RedisService | null = null;
+
+// For features that degrade without Redis: null when it was never connected or is reconnecting
+export const getOptionalRedisService = (): RedisService | null => {
+  if (!optionalRedisService) {
+    if (!redisClient) {
+      // Redis was never connected; the server runs without it
+      return null;
+    }
+    optionalRedisService = new RedisService();
+  }
+
+  return optionalRedisService.isReady() ? optionalRedisService : null;
+};
+
 export default RedisService;
\ No newline at end of file
@@ -3,6 +3,10 @@ import bcrypt from 'bcryptjs';
 
 export async function seed(knex: Knex): Promise<void> {
   // Clean up existing data
+  await knex('user_identities').del();
+  await knex('registration_events').del();
+  await knex('registration_reminder_opt_outs').del();
+  await knex('shop_url_reservations').del();
   await knex('password_resets').del();
   await knex('refresh_tokens').del();
   await knex('registration_sessions').del();
@@ -85,14 +89,13 @@ export async function seed(knex: Knex): Promise<void> {
       business_name: 'Test Business',
       business_description: 'A test business for development and testing purposes',
       business_type: 'services',
-      oauth_provider: 'google',
-      oauth_id: '12345678901234567890',
       location: JSON.stringify({
         country: 'Nigeria',
         state: 'Lagos',
         localGovernment: 'Ikeja',
         address: '101 Test Street, Ikeja'
       }),
+      role: 'admin',
       is_active: true,
       email_verified: true,
       created_at: new Date(),
@@ -100,7 +103,17 @@ export async function seed(knex: Knex): Promise<void> {
     }
   ]);
 
+  // Test user signs in with Google too
+  await knex('user_identities').insert({
+    user_id: '550e8400-e29b-41d4-a716-446655440004',
+    provider: 'google',
+    provider_user_id: '12345678901234567890',
+    email: 'testuser@celm.com',
+    created_at: new Date()
+  });
+
   console.log('✅ Auth flow seed data inserted successfully');
   console.log('📧 Test user emails: john@example.com, sarah@example.com, mike@example.com, testuser@celm.com');
   console.log('🔑 Test password: TestPassword123!');
+  console.log('🛡️ Admin user: testuser@celm.com');
 }
\ No newline at end of file
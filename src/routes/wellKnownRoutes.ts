@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express';
+import { TokenKeyService } from '@/auth/services/TokenKeyService';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+const tokenKeyService = new TokenKeyService();
+
+// Public keys used to verify access tokens (storefront, analytics, ...)
+router.get('/jwks.json', async (req: Request, res: Response) => {
+  try {
+    const jwks = await tokenKeyService.getJwks();
+
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).json(jwks);
+  } catch (error) {
+    logger.error('Failed to build JWKS:', error);
+    res.status(503).json({
+      success: false,
+      message: 'Signing keys are unavailable',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+export { router as wellKnownRoutes };
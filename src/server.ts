@@ -11,7 +11,13 @@ import { connectDatabase } from '@/database/connection';
 import { connectRedis } from '@/database/redis';
 import { authRoutes } from '@/auth/routes/authRoutes';
 import { registrationRoutes } from '@/auth/routes/registrationRoutes';
+import { adminRoutes } from '@/auth/routes/adminRoutes';
+import { RegistrationReminderJob } from '@/auth/jobs/RegistrationReminderJob';
+import { RegistrationCleanupJob } from '@/auth/jobs/RegistrationCleanupJob';
 import { healthRoutes } from '@/routes/healthRoutes';
+import { wellKnownRoutes } from '@/routes/wellKnownRoutes';
+import { AuthMethod } from '@/auth/types/auth';
+import { UserRole } from '@/auth/models/User';
 import { errorHandler, notFoundHandler } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 
@@ -26,6 +32,12 @@ declare global {
         lastName: string;
         shopUrl: string;
         businessName: string;
+        sessionId?: string;
+        tokenId?: string;
+        tokenExpiresAt?: number;
+        authTime?: number;
+        amr?: AuthMethod[];
+        role?: UserRole;
       };
     }
   }
@@ -101,10 +113,16 @@ class Server {
     
     // Health check
     this.app.use('/health', healthRoutes);
+
+    // JWKS for services verifying access tokens
+    this.app.use('/.well-known', wellKnownRoutes);
     
     // Auth routes (new structure)
     this.app.use(`${apiPrefix}/auth`, authRoutes);
     this.app.use(`${apiPrefix}/auth/registration`, registrationRoutes);
+
+    // Admin routes (admin role required)
+    this.app.use(`${apiPrefix}/admin`, adminRoutes);
     
     // API info
     this.app.get(`${apiPrefix}`, (req, res) => {
@@ -116,8 +134,10 @@ class Server {
         endpoints: {
           auth: `${apiPrefix}/auth`,
           registration: `${apiPrefix}/auth/registration`,
+          admin: `${apiPrefix}/admin`,
           users: `${apiPrefix}/users`,
           health: '/health',
+          jwks: '/.well-known/jwks.json',
         },
       });
     });
@@ -130,6 +150,10 @@ class Server {
 
   public async listen(): Promise<void> {
     await this.initializeDatabase();
+
+    // Background jobs start once the database is reachable
+    new RegistrationReminderJob().start();
+    new RegistrationCleanupJob().start();
     
     this.app.listen(this.port, () => {
       logger.info(`🚀 Server running on port ${this.port}`);
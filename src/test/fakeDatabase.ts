@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+type Grouped = (this: FakeQuery, query: FakeQuery) => void;
+
+const OPERATORS: Record<string, (a: any, b: any) => boolean> = {
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+
+// Dates compare by time, everything else as is
+const comparable = (value: any): any => (value instanceof Date ? value.getTime() : value);
+
+// Rows hold bare column names, so `table.column` is matched on the column
+const columnName = (column: string): string => column.split('.').pop()!;
+
+// The raw conditions the stores use, keyed by their SQL
+const RAW_CONDITIONS: { pattern: RegExp; filter: (match: RegExpMatchArray, bindings: any[]) => Filter }[] = [
+  {
+    pattern: /^LOWER\((\w+)\) = \?$/,
+    filter: ([, column], [value]) => (row) => typeof row[column] === 'string' && row[column].toLowerCase() === value
+  }
+];
+
+// In-memory stand-in for the slice of the knex query builder the services use
+class FakeQuery implements PromiseLike<any> {
+  // OR of AND-groups, like SQL's precedence; orWhere starts a new group
+  private groups: Filter[][] = [[]];
+  private order?: { column: string; direction: string };
+  private max?: number;
+  private operation: () => any = () => this.matching().map((row) => ({ ...row }));
+  private returnRows = false;
+  private inserting: Row[] = [];
+  private conflictColumn?: string;
+
+  constructor(private rows: Row[]) {}
+
+  where(column: string | Row | Grouped, operator?: any, value?: any): this {
+    if (typeof column === 'function') {
+      const nested = new FakeQuery([]);
+      (column as Grouped).call(nested, nested);
+      return this.filter((row) => nested.matches(row));
+    }
+
+    if (typeof column === 'object') {
+      for (const [field, expected] of Object.entries(column)) {
+        this.where(field, expected);
+      }
+      return this;
+    }
+
+    const [op, expected] = value === undefined ? ['=', operator] : [operator, value];
+    const compare = OPERATORS[op];
+    if (!compare) {
+      throw new Error(`Unsupported operator in fake database: ${op}`);
+    }
+
+    const field = columnName(column);
+    if (expected === null && op === '=') {
+      return this.whereNull(field);
+    }
+    return this.filter((row) => row[field] !== undefined && row[field] !== null &&
+      compare(comparable(row[field]), comparable(expected)));
+  }
+
+  whereRaw(sql: string, bindings: any[] = []): this {
+    for (const { pattern, filter } of RAW_CONDITIONS) {
+      const match = sql.match(pattern);
+      if (match) {
+        return this.filter(filter(match, bindings));
+      }
+    }
+    throw new Error(`Unsupported raw condition in fake database: ${sql}`);
+  }
+
+  orWhere(column: string | Row | Grouped, operator?: any, value?: any): this {
+    this.groups.push([]);
+    return this.where(column, operator, value);
+  }
+
+  whereNot(column: string, value: any): this {
+    return this.filter((row) => comparable(row[column]) !== comparable(value));
+  }
+
+  whereNull(column: string): this {
+    return this.filter((row) => row[column] === undefined || row[column] === null);
+  }
+
+  whereNotNull(column: string): this {
+    return this.filter((row) => row[column] !== undefined && row[column] !== null);
+  }
+
+  whereIn(column: string, values: any[]): this {
+    return this.filter((row) => values.map(comparable).includes(comparable(row[column])));
+  }
+
+  orderBy(column: string, direction = 'asc'): this {
+    this.order = { column, direction };
+    return this;
+  }
+
+  limit(max: number): this {
+    this.max = max;
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  returning(): this {
+    this.returnRows = true;
+    return this;
+  }
+
+  first(): this {
+    this.operation = () => {
+      const [row] = this.matching();
+      return row ? { ...row } : undefined;
+    };
+    return this;
+  }
+
+  pluck(column: string): this {
+    this.operation = () => this.matching().map((row) => row[column]);
+    return this;
+  }
+
+  count(alias: Row): this {
+    this.operation = () => [{ [Object.keys(alias)[0]]: this.matching().length }];
+    return this;
+  }
+
+  distinct(column: string): this {
+    this.operation = () => [...new Set(this.matching().map((row) => row[column]))].map((value) => ({ [column]: value }));
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.inserting = Array.isArray(values) ? values : [values];
+    this.operation = () => {
+      const inserted = this.inserting.map((value) => ({ id: crypto.randomUUID(), ...value }));
+      this.rows.push(...inserted);
+      return this.returnRows ? inserted.map((row) => ({ ...row })) : [];
+    };
+    return this;
+  }
+
+  onConflict(column: string): this {
+    this.conflictColumn = column;
+    return this;
+  }
+
+  // Upsert: a conflicting row only takes the merged columns while it matches any later where
+  merge(columns: string[]): this {
+    const values = this.inserting;
+    const conflictColumn = this.conflictColumn!;
+
+    this.operation = () => {
+      const written: Row[] = [];
+      for (const value of values) {
+        const existing = this.rows.find((row) => comparable(row[conflictColumn]) === comparable(value[conflictColumn]));
+        if (!existing) {
+          const inserted = { id: crypto.randomUUID(), ...value };
+          this.rows.push(inserted);
+          written.push(inserted);
+        } else if (this.matches(existing)) {
+          columns.forEach((column) => { existing[column] = value[column]; });
+          written.push(existing);
+        }
+      }
+      return this.returnRows ? written.map((row) => ({ ...row })) : [];
+    };
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = () => {
+      const updated = this.matching();
+      updated.forEach((row) => Object.assign(row, changes));
+      return this.returnRows ? updated.map((row) => ({ ...row })) : updated.length;
+    };
+    return this;
+  }
+
+  increment(column: string, by = 1): this {
+    this.operation = () => {
+      const updated = this.matching();
+      updated.forEach((row) => { row[column] = (row[column] || 0) + by; });
+      return updated.length;
+    };
+    return this;
+  }
+
+  del(): this {
+    this.operation = () => {
+      const deleted = this.matching();
+      for (const row of deleted) {
+        this.rows.splice(this.rows.indexOf(row), 1);
+      }
+      return this.returnRows ? deleted : deleted.length;
+    };
+    return this;
+  }
+
+  then<TResult1 = any, TResult2 = never>(
+    onfulfilled?: ((value: any) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return new Promise((resolve) => resolve(this.operation())).then(onfulfilled, onrejected);
+  }
+
+  private filter(filter: Filter): this {
+    this.groups[this.groups.length - 1].push(filter);
+    return this;
+  }
+
+  private matches(row: Row): boolean {
+    return this.groups.some((group) => group.every((filter) => filter(row)));
+  }
+
+  private matching(): Row[] {
+    let rows = this.rows.filter((row) => this.matches(row));
+
+    if (this.order) {
+      const { column, direction } = this.order;
+      const sign = direction === 'desc' ? -1 : 1;
+      rows = [...rows].sort((a, b) => (comparable(a[column]) > comparable(b[column]) ? sign : -sign));
+    }
+
+    return this.max === undefined ? rows : rows.slice(0, this.max);
+  }
+}
+
+export interface FakeDatabase {
+  (table: string): FakeQuery;
+  rows(table: string): Row[];
+  // Runs the callback against the same tables; nothing is rolled back
+  transaction<T>(callback: (trx: FakeDatabase) => Promise<T>): Promise<T>;
+}
+
+// A callable like knex's `db(table)`, backed by plain arrays per table
+export const createFakeDatabase = (): FakeDatabase => {
+  const tables = new Map<string, Row[]>();
+  const rows = (table: string): Row[] => {
+    if (!tables.has(table)) {
+      tables.set(table, []);
+    }
+    return tables.get(table)!;
+  };
+
+  const db = ((table: string) => new FakeQuery(rows(table))) as FakeDatabase;
+  db.rows = rows;
+  db.transaction = (callback) => callback(db);
+  return db;
+};
@@ -0,0 +1,232 @@
+interface Entry {
+  value: string;
+  expiresAt?: number;
+}
+
+// Shared by every FakeRedisService and the fake client, like a single Redis server
+const entries = new Map<string, Entry>();
+const sortedSets = new Map<string, Map<string, number>>();
+
+const read = (key: string): Entry | undefined => {
+  const entry = entries.get(key);
+  if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+// In-memory stand-in for RedisService; see fakeRedisModule
+export class FakeRedisService {
+  isReady(): boolean {
+    return true;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<boolean> {
+    entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : undefined });
+    return true;
+  }
+
+  async getAndDelete(key: string): Promise<string | null> {
+    const value = await this.get(key);
+    entries.delete(key);
+    return value;
+  }
+
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    if (read(key)) return false;
+    return this.set(key, value, ttl);
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    if (read(key)?.value !== value) return false;
+    return entries.delete(key);
+  }
+
+  async increment(key: string, ttl?: number): Promise<number | null> {
+    const entry = read(key);
+    const value = entry ? parseInt(entry.value) + 1 : 1;
+    entries.set(key, { value: value.toString(), expiresAt: entry ? entry.expiresAt : ttl ? Date.now() + ttl * 1000 : undefined });
+    return value;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = read(key);
+    if (!entry) return -2;
+    return entry.expiresAt === undefined ? -1 : Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async del(key: string): Promise<boolean> {
+    entries.delete(key);
+    return true;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return !!read(key);
+  }
+}
+
+interface SetOptions {
+  NX?: boolean;
+  PXAT?: number;
+  KEEPTTL?: boolean;
+}
+
+type Command = () => any;
+
+const sortedSet = (key: string): Map<string, number> => {
+  if (!sortedSets.has(key)) {
+    sortedSets.set(key, new Map());
+  }
+  return sortedSets.get(key)!;
+};
+
+// '-inf', '+inf', a score, or '(score' for an exclusive bound
+const scoreBound = (bound: string | number): { score: number; exclusive: boolean } => {
+  const text = String(bound);
+  const exclusive = text.startsWith('(');
+  const value = exclusive ? text.slice(1) : text;
+  const score = value === '-inf' ? -Infinity : value === '+inf' ? Infinity : Number(value);
+  return { score, exclusive };
+};
+
+const asArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+// Queues commands until exec, like a MULTI block
+class FakeRedisTransaction {
+  private commands: Command[] = [];
+
+  constructor(private client: FakeRedisClient) {}
+
+  set(key: string, value: string, options?: SetOptions): this {
+    return this.queue(() => this.client.set(key, value, options));
+  }
+
+  del(keys: string | string[]): this {
+    return this.queue(() => this.client.del(keys));
+  }
+
+  zAdd(key: string, members: { score: number; value: string } | { score: number; value: string }[]): this {
+    return this.queue(() => this.client.zAdd(key, members));
+  }
+
+  zRem(key: string, members: string | string[]): this {
+    return this.queue(() => this.client.zRem(key, members));
+  }
+
+  async exec(): Promise<any[]> {
+    const results = [];
+    for (const command of this.commands) {
+      results.push(await command());
+    }
+    return results;
+  }
+
+  private queue(command: Command): this {
+    this.commands.push(command);
+    return this;
+  }
+}
+
+// In-memory stand-in for the slice of the node-redis client the registration session store uses.
+// Commands run one at a time, so WATCH never sees a conflicting write.
+export class FakeRedisClient {
+  async get(key: string): Promise<string | null> {
+    return read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<string | null> {
+    const existing = read(key);
+    if (options.NX && existing) return null;
+
+    const expiresAt = options.KEEPTTL ? existing?.expiresAt : options.PXAT;
+    entries.set(key, { value, expiresAt });
+    return 'OK';
+  }
+
+  async getDel(key: string): Promise<string | null> {
+    const value = await this.get(key);
+    entries.delete(key);
+    return value;
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    return keys.map((key) => read(key)?.value ?? null);
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    return asArray(keys).filter((key) => read(key) && entries.delete(key)).length;
+  }
+
+  async zAdd(key: string, members: { score: number; value: string } | { score: number; value: string }[]): Promise<number> {
+    const set = sortedSet(key);
+    const added = asArray(members).filter((member) => !set.has(member.value)).length;
+    asArray(members).forEach((member) => set.set(member.value, member.score));
+    return added;
+  }
+
+  async zRem(key: string, members: string | string[]): Promise<number> {
+    const set = sortedSet(key);
+    return asArray(members).filter((member) => set.delete(member)).length;
+  }
+
+  async zRangeByScore(
+    key: string,
+    min: string | number,
+    max: string | number,
+    options?: { LIMIT: { offset: number; count: number } }
+  ): Promise<string[]> {
+    const low = scoreBound(min);
+    const high = scoreBound(max);
+    const members = [...sortedSet(key).entries()]
+      .filter(([, score]) => (low.exclusive ? score > low.score : score >= low.score) &&
+        (high.exclusive ? score < high.score : score <= high.score))
+      .sort(([a, aScore], [b, bScore]) => aScore - bScore || (a < b ? -1 : 1))
+      .map(([member]) => member);
+
+    return options ? members.slice(options.LIMIT.offset, options.LIMIT.offset + options.LIMIT.count) : members;
+  }
+
+  multi(): FakeRedisTransaction {
+    return new FakeRedisTransaction(this);
+  }
+
+  async executeIsolated<T>(callback: (isolated: FakeRedisClient) => Promise<T>): Promise<T> {
+    return callback(this);
+  }
+
+  async watch(): Promise<string> {
+    return 'OK';
+  }
+
+  async unwatch(): Promise<string> {
+    return 'OK';
+  }
+
+  // Milliseconds left on a key, -1 without an expiry and -2 when it is gone
+  async pTTL(key: string): Promise<number> {
+    const entry = read(key);
+    if (!entry) return -2;
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+  }
+}
+
+export const resetFakeRedis = (): void => {
+  entries.clear();
+  sortedSets.clear();
+};
+
+// Replacement for '@/database/redis': jest.mock('@/database/redis', () => jest.requireActual('@/test/fakeRedis').fakeRedisModule())
+export const fakeRedisModule = () => {
+  const service = new FakeRedisService();
+  const client = new FakeRedisClient();
+  return {
+    RedisService: FakeRedisService,
+    getRedisClient: () => client,
+    getOptionalRedisService: () => service,
+  };
+};
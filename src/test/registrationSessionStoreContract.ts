@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import { RegistrationStep } from '@/auth/types/auth';
+import { RegistrationSessionStore, NewRegistrationSessionRecord } from '@/auth/stores/RegistrationSessionStore';
+
+// The behaviour every RegistrationSessionStore shares. Callers set up the backing Postgres and
+// Redis (real or fake) and call this inside their own describe.
+export const registrationSessionStoreContract = (createStore: () => RegistrationSessionStore): void => {
+  const hour = 60 * 60 * 1000;
+  let store: RegistrationSessionStore;
+  let created: string[];
+
+  beforeEach(() => {
+    store = createStore();
+    created = [];
+  });
+
+  afterEach(async () => {
+    for (const id of created) {
+      await store.delete(id);
+    }
+  });
+
+  const unique = () => crypto.randomUUID();
+
+  const create = async (fields: Partial<NewRegistrationSessionRecord> = {}) => {
+    const email = fields.email || `owner-${unique()}@example.com`;
+    const session = await store.create({
+      email,
+      sessionToken: unique(),
+      stepData: { step1: { email, isOAuth: false } },
+      stepHistory: [],
+      currentStep: RegistrationStep.EMAIL_INPUT,
+      totalSteps: 5,
+      emailVerified: false,
+      verificationCodeAttempts: 0,
+      remindersSent: 0,
+      expiresAt: new Date(Date.now() + hour),
+      ...fields
+    });
+    created.push(session.id);
+    return session;
+  };
+
+  it('finds a session by token with its fields intact', async () => {
+    const session = await create({ verificationToken: 'verification-token' });
+
+    const found = await store.findByToken(session.sessionToken);
+
+    expect(found).toMatchObject({
+      id: session.id,
+      email: session.email,
+      stepData: session.stepData,
+      stepHistory: [],
+      currentStep: RegistrationStep.EMAIL_INPUT,
+      emailVerified: false,
+      verificationToken: 'verification-token',
+      verificationCodeAttempts: 0,
+      remindersSent: 0
+    });
+    expect(found!.expiresAt.getTime()).toBe(session.expiresAt.getTime());
+    await expect(store.findByToken(unique())).resolves.toBeNull();
+  });
+
+  it('finds the latest session for an email regardless of case', async () => {
+    const email = `Owner-${unique()}@Example.com`;
+    await create({ email });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const latest = await create({ email });
+
+    const found = await store.findByEmail(email.toLowerCase());
+
+    expect(found?.id).toBe(latest.id);
+    expect(found?.email).toBe(email);
+    await expect(store.findByEmail(email.toUpperCase())).resolves.toMatchObject({ id: latest.id });
+  });
+
+  it('saves changes, clears unset fields and leaves counters alone', async () => {
+    const session = await create({ verificationToken: 'verification-token' });
+
+    const saved = await store.save({
+      ...session,
+      emailVerified: true,
+      verificationToken: undefined,
+      currentStep: RegistrationStep.PERSONAL_INFO,
+      verificationCodeAttempts: 5,
+      remindersSent: 5
+    });
+
+    expect(saved.updatedAt.getTime()).toBeGreaterThanOrEqual(session.updatedAt.getTime());
+    const found = await store.findByToken(session.sessionToken);
+    expect(found).toMatchObject({
+      emailVerified: true,
+      currentStep: RegistrationStep.PERSONAL_INFO,
+      verificationCodeAttempts: 0,
+      remindersSent: 0
+    });
+    expect(found!.verificationToken).toBeUndefined();
+  });
+
+  it('keeps counter changes made after the session was read when a stale copy is saved', async () => {
+    const session = await create();
+
+    await store.incrementVerificationCodeAttempts(session.id);
+    await expect(store.updateIf(session.id, { remindersSent: 0 }, { remindersSent: 1 })).resolves.toBe(true);
+    await store.save({ ...session, currentStep: RegistrationStep.PERSONAL_INFO });
+
+    expect(await store.findByToken(session.sessionToken)).toMatchObject({
+      currentStep: RegistrationStep.PERSONAL_INFO,
+      verificationCodeAttempts: 1,
+      remindersSent: 1
+    });
+  });
+
+  it('applies a conditional update only while the expected values hold', async () => {
+    const session = await create({ verificationCode: 'code-hash' });
+
+    await expect(store.updateIf(session.id, { verificationCode: 'other-hash' }, { verificationCode: null })).resolves.toBe(false);
+    await expect(store.updateIf(session.id, { verificationCode: 'code-hash' }, { verificationCode: null })).resolves.toBe(true);
+
+    expect((await store.findByToken(session.sessionToken))!.verificationCode).toBeUndefined();
+  });
+
+  it('counts verification code attempts', async () => {
+    const session = await create();
+
+    await store.incrementVerificationCodeAttempts(session.id);
+    await store.incrementVerificationCodeAttempts(session.id);
+
+    expect((await store.findByToken(session.sessionToken))!.verificationCodeAttempts).toBe(2);
+  });
+
+  it('hands a resume token to one claim only, and never once it has expired', async () => {
+    const session = await create();
+    await store.save({ ...session, resumeToken: 'resume-hash', resumeTokenExpiresAt: new Date(Date.now() + hour) });
+
+    await expect(store.claimResumeToken('resume-hash')).resolves.toMatchObject({ id: session.id });
+    await expect(store.claimResumeToken('resume-hash')).resolves.toBeNull();
+
+    const other = await create();
+    await store.save({ ...other, resumeToken: 'stale-hash', resumeTokenExpiresAt: new Date(Date.now() - 1000) });
+    await expect(store.claimResumeToken('stale-hash')).resolves.toBeNull();
+  });
+
+  it('finds verified sessions idle since a time, under the reminder cap', async () => {
+    const verified = await create({ emailVerified: true });
+    const unverified = await create();
+
+    const idle = await store.findIdle(new Date(Date.now() + 1000), 1, 1000);
+    const ids = idle.map((session) => session.id);
+
+    expect(ids).toContain(verified.id);
+    expect(ids).not.toContain(unverified.id);
+  });
+
+  it('removes expired sessions and returns them', async () => {
+    const expired = await create({ expiresAt: new Date(Date.now() - 1000), currentStep: RegistrationStep.SHOP_DETAILS });
+    const live = await create();
+
+    const removed = await store.removeExpired();
+
+    expect(removed.find((session) => session.id === expired.id)).toMatchObject({ currentStep: RegistrationStep.SHOP_DETAILS });
+    expect(removed.map((session) => session.id)).not.toContain(live.id);
+    await expect(store.findByToken(expired.sessionToken)).resolves.toBeNull();
+    await expect(store.findByToken(live.sessionToken)).resolves.not.toBeNull();
+  });
+
+  it('holds a shop URL for one session until it is released', async () => {
+    const first = await create();
+    const second = await create();
+    const shopUrl = `shop-${unique()}`;
+    const until = new Date(Date.now() + hour);
+
+    await expect(store.reserveShopUrl(shopUrl, first.id, until)).resolves.toBe(true);
+    await expect(store.reserveShopUrl(shopUrl, second.id, until)).resolves.toBe(false);
+    await expect(store.reserveShopUrl(shopUrl, first.id, until)).resolves.toBe(true);
+
+    await expect(store.isShopUrlReserved(shopUrl)).resolves.toBe(true);
+    await expect(store.isShopUrlReserved(shopUrl, first.id)).resolves.toBe(false);
+
+    await store.releaseShopUrl(shopUrl, second.id);
+    await expect(store.isShopUrlReserved(shopUrl)).resolves.toBe(true);
+
+    await store.releaseShopUrl(shopUrl, first.id);
+    await expect(store.reserveShopUrl(shopUrl, second.id, until)).resolves.toBe(true);
+    await store.releaseShopUrl(shopUrl, second.id);
+  });
+};
@@ -0,0 +1,4 @@
+import { logger } from '@/utils/logger';
+
+// Expected failures are logged by the code under test; keep test output readable
+logger.silent = true;
@@ -60,6 +60,19 @@ export class ConflictError extends AppError {
   }
 }
 
+export class LockedError extends AppError {
+  constructor(message: string = 'Resource is locked') {
+    super(message, 423);
+  }
+}
+
+// A recent second factor is required before this operation
+export class StepUpRequiredError extends AppError {
+  constructor(message: string = 'Please confirm it\'s you to continue') {
+    super(message, 401);
+  }
+}
+
 export class TooManyRequestsError extends AppError {
   constructor(message: string = 'Too many requests') {
     super(message, 429);
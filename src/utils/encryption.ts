@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+
+const ALGORITHM = 'aes-256-gcm';
+
+const getKey = (): Buffer => crypto.createHash('sha256').update(config.security.encryptionKey).digest();
+
+// Encrypt a secret for storage at rest as "iv:authTag:ciphertext" (base64)
+export const encryptSecret = (plainText: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, authTag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
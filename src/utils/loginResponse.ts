@@ -0,0 +1,29 @@
+import { AuthenticatedUser, MfaChallenge } from '@/auth/services/AuthService';
+
+export interface LoginResponse {
+  message: string;
+  data: Record<string, unknown>;
+}
+
+// Response body for any sign-in: tokens, or an MFA challenge whose second phase happens at /2fa/login
+export const toLoginResponse = (result: AuthenticatedUser | MfaChallenge): LoginResponse => {
+  if ('mfaRequired' in result) {
+    return {
+      message: 'Two-factor authentication required',
+      data: {
+        mfaRequired: true,
+        method: result.method,
+        mfaToken: result.mfaToken,
+        expiresIn: result.expiresIn
+      }
+    };
+  }
+
+  return {
+    message: 'Login successful',
+    data: {
+      user: result.user.toSafeJSON(),
+      tokens: result.tokens
+    }
+  };
+};
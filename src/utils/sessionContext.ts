@@ -0,0 +1,45 @@
+import { Request } from 'express';
+import { SessionContext } from '@/auth/types/auth';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Chrome\//, 'Chrome'],
+  [/CriOS\//, 'Chrome'],
+  [/FxiOS\/|Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Build a human readable label such as "Chrome on Windows"
+export const getDeviceLabel = (userAgent?: string): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+// Extract session metadata from an incoming request
+export const getSessionContext = (req: Request): SessionContext => {
+  const userAgent = req.get('User-Agent');
+
+  return {
+    userAgent: userAgent ? userAgent.substring(0, 512) : undefined,
+    ipAddress: req.ip,
+    deviceLabel: getDeviceLabel(userAgent)
+  };
+};
@@ -0,0 +1,44 @@
+import { base32Encode, base32Decode, generateTotp, verifyTotp, getTimeStep, TOTP_PERIOD_SECONDS } from './totp';
+
+// RFC 6238 appendix B secret ("12345678901234567890" in ASCII)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips secrets through base32', () => {
+    const bytes = Buffer.from('a shared secret of any length');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTimeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  describe('verifyTotp clock skew', () => {
+    const now = Date.UTC(2026, 0, 1, 12, 0, 15);
+    const currentStep = getTimeStep(now);
+
+    it.each([-1, 0, 1])('accepts a code from %i step(s) away and returns its step', (offset) => {
+      const code = generateTotp(RFC_SECRET, currentStep + offset);
+      expect(verifyTotp(RFC_SECRET, code, 1, now)).toBe(currentStep + offset);
+    });
+
+    it.each([-2, 2])('rejects a code from %i steps away', (offset) => {
+      const code = generateTotp(RFC_SECRET, currentStep + offset);
+      expect(verifyTotp(RFC_SECRET, code, 1, now)).toBeNull();
+    });
+
+    it('moves the window with the clock', () => {
+      const code = generateTotp(RFC_SECRET, currentStep + 2);
+      expect(verifyTotp(RFC_SECRET, code, 1, now + TOTP_PERIOD_SECONDS * 1000)).toBe(currentStep + 2);
+    });
+  });
+
+  it('ignores spaces and rejects malformed codes', () => {
+    const code = generateTotp(RFC_SECRET, getTimeStep());
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, code.slice(0, 5))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});